@@ -0,0 +1,91 @@
+/**
+ * Encoder throughput benchmarks. Run with `bun run bench`, or with
+ * `bun run bench <rev>` to time the encoder at git revision `<rev>` next to
+ * the current one, e.g. `bun run bench 37fc6e0~1` for the encoder before it
+ * wrote into a single growable buffer.
+ */
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CBOR, type CBORValue } from "../src/cbor";
+
+type Encode = (value: CBORValue) => unknown;
+
+/** Loads `CBOR.encode` from `src/` as of git revision `rev`. */
+async function loadEncoder(rev: string): Promise<Encode> {
+	const dir = mkdtempSync(join(tmpdir(), "cbor-bench-"));
+	try {
+		const archive = execFileSync("git", ["archive", rev, "src"]);
+		execFileSync("tar", ["-x", "-C", dir], { input: archive });
+		const { CBOR: baseline } = await import(join(dir, "src", "cbor.ts"));
+		return baseline.encode;
+	} finally {
+		rmSync(dir, { recursive: true, force: true });
+	}
+}
+
+const baselineRev = process.argv[2];
+const baseline = baselineRev ? await loadEncoder(baselineRev) : undefined;
+
+function measure(iterations: number, fn: () => void): number {
+	for (let i = 0; i < Math.min(iterations, 1000); i++) fn();
+	const start = performance.now();
+	for (let i = 0; i < iterations; i++) fn();
+	const elapsed = performance.now() - start;
+	return Math.round((iterations / elapsed) * 1000);
+}
+
+function formatOps(opsPerSecond: number): string {
+	return opsPerSecond.toLocaleString("en-US").padStart(14);
+}
+
+function bench(name: string, iterations: number, value: CBORValue): void {
+	const current = measure(iterations, () => CBOR.encode(value));
+	if (!baseline) {
+		console.log(`${name.padEnd(36)}${formatOps(current)} ops/s`);
+		return;
+	}
+	const before = measure(iterations, () => baseline(value));
+	console.log(
+		`${name.padEnd(36)}${formatOps(before)} ->${formatOps(current)} ops/s  (${(current / before).toFixed(1)}x)`,
+	);
+}
+
+if (baselineRev) {
+	console.log(`ops/s at ${baselineRev} -> working tree\n`);
+}
+
+const clientData = {
+	type: "webauthn.get",
+	challenge: new Uint8Array(32).fill(7),
+	origin: "https://example.com",
+	crossOrigin: false,
+	extensions: { appid: "https://example.com", credProps: true },
+};
+const coseKey = {
+	1: 2,
+	3: -7,
+	[-1]: 1,
+	[-2]: new Uint8Array(32).fill(1),
+	[-3]: new Uint8Array(32).fill(2),
+};
+const integers = Array.from({ length: 1000 }, (_, i) => i * 1000 - 500000);
+const floats = Array.from({ length: 1000 }, (_, i) => i / 7);
+const records = Array.from({ length: 100 }, (_, i) => ({
+	id: i,
+	name: `record-${i}`,
+	tags: ["a", "b", "c"],
+	score: i * 1.5,
+	active: i % 2 === 0,
+}));
+const text = "lorem ipsum dolor sit amet ".repeat(4000);
+const blob = new Uint8Array(1024 * 1024).fill(42);
+
+bench("small object (clientData)", 100_000, clientData);
+bench("COSE key", 100_000, coseKey);
+bench("1000 integers", 5_000, integers);
+bench("1000 floats", 5_000, floats);
+bench("100 records", 5_000, records);
+bench("100 KiB string", 5_000, text);
+bench("1 MiB byte string", 500, blob);
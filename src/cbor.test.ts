@@ -1,7 +1,16 @@
 import { describe, expect, test } from "bun:test";
+import { runInNewContext } from "node:vm";
 import { fc } from "fast-check-bun-test";
 
-import { CBOR } from "./cbor";
+import {
+	CBOR,
+	CBORDecodeError,
+	CBOREncodeError,
+	CBOREncoded,
+	CBORStreamEncoder,
+	CBORTag,
+	type CBORValue,
+} from "./cbor";
 
 describe("CBOR", () => {
 	describe("encode/decode", () => {
@@ -91,6 +100,2016 @@ describe("CBOR", () => {
 		});
 	});
 
+	describe("indefinite-length items", () => {
+		test("should decode indefinite-length byte strings", () => {
+			const decoded = CBOR.decode(fromHex("5f42010243030405ff"));
+			expect(new Uint8Array(decoded as ArrayBuffer)).toEqual(
+				new Uint8Array([1, 2, 3, 4, 5]),
+			);
+			expect(CBOR.decode(fromHex("5fff"))).toEqual(new ArrayBuffer(0));
+		});
+
+		test("should decode indefinite-length text strings", () => {
+			expect(CBOR.decode(fromHex("7f657374726561646d696e67ff"))).toBe(
+				"streaming",
+			);
+			expect(CBOR.decode(fromHex("7fff"))).toBe("");
+		});
+
+		test("should decode indefinite-length arrays", () => {
+			expect(CBOR.decode(fromHex("9fff"))).toEqual([]);
+			expect(CBOR.decode(fromHex("9f018202039f0405ffff"))).toEqual([
+				1,
+				[2, 3],
+				[4, 5],
+			]);
+			expect(CBOR.decode(fromHex("83018202039f0405ff"))).toEqual([
+				1,
+				[2, 3],
+				[4, 5],
+			]);
+		});
+
+		test("should decode indefinite-length maps", () => {
+			expect(CBOR.decode(fromHex("bf61610161629f0203ffff"))).toEqual({
+				a: 1,
+				b: [2, 3],
+			});
+			expect(CBOR.decode(fromHex("bf6346756ef563416d7421ff"))).toEqual({
+				Fun: true,
+				Amt: -2,
+			});
+		});
+
+		test("should decode __proto__ keys as own properties", () => {
+			// {"__proto__": 1}
+			const decoded = CBOR.decode(fromHex("a1695f5f70726f746f5f5f01"));
+			expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+			expect(Object.keys(decoded as object)).toEqual(["__proto__"]);
+		});
+
+		test("should report the consumed length including the break code", () => {
+			const [value, length] = CBOR.decodeWithOffset(fromHex("9f0102ff03"));
+			expect(value).toEqual([1, 2]);
+			expect(length).toBe(4);
+		});
+
+		test("should reject chunks of a different major type", () => {
+			expect(() => CBOR.decode(fromHex("5f6161ff"))).toThrow(
+				"Indefinite-length string chunks must be definite-length strings of the same major type",
+			);
+		});
+
+		test("should reject nested indefinite-length chunks", () => {
+			expect(() => CBOR.decode(fromHex("7f7f6161ffff"))).toThrow(
+				"Indefinite-length string chunks must be definite-length strings of the same major type",
+			);
+		});
+
+		test("should reject chunks that split a UTF-8 sequence", () => {
+			expect(() => CBOR.decode(fromHex("7f61e3628182ff"))).toThrow(
+				"Invalid UTF-8 sequence in text string",
+			);
+		});
+
+		test("should reject a missing break code", () => {
+			expect(() => CBOR.decode(fromHex("9f0102"))).toThrow(
+				"Buffer too short for CBOR data",
+			);
+		});
+
+		test("should reject a break code outside an indefinite-length item", () => {
+			expect(() => CBOR.decode(fromHex("ff"))).toThrow(
+				"Unexpected break code outside indefinite-length item",
+			);
+			expect(() => CBOR.decode(fromHex("bf6161ff"))).toThrow(
+				"Unexpected break code outside indefinite-length item",
+			);
+		});
+
+		test("should encode indefinite-length arrays and maps", () => {
+			expect(toHex(CBOR.encode([1, [2, 3]], { indefiniteLength: true }))).toBe(
+				"9f019f0203ffff",
+			);
+			expect(
+				toHex(CBOR.encode({ a: 1, b: [] }, { indefiniteLength: true })),
+			).toBe("bf61610161629fffff");
+		});
+
+		test("should round-trip indefinite-length encoding", () => {
+			const value = { list: [1, "two", { three: [3] }], empty: {} };
+			const encoded = CBOR.encode(value, { indefiniteLength: true });
+			expect(CBOR.decode(encoded)).toEqual(value);
+		});
+	});
+
+	describe("tags", () => {
+		test("should encode and decode CBORTag", () => {
+			// 4([-2, 27315]): decimal fraction 273.15
+			const buffer = fromHex("c48221196ab3");
+			expect(toHex(CBOR.encode(new CBORTag(4, [-2, 27315])))).toBe(
+				"c48221196ab3",
+			);
+			const decoded = CBOR.decode(buffer);
+			expect(decoded).toBeInstanceOf(CBORTag);
+			expect(decoded).toEqual(new CBORTag(4, [-2, 27315]));
+		});
+
+		test("should encode objects with tag and value properties as maps", () => {
+			const value = { tag: 5, value: "x" };
+			const encoded = CBOR.encode(value);
+			expect(toHex(encoded)).toBe("a263746167056576616c75656178");
+			expect(CBOR.decode(encoded)).toEqual(value);
+		});
+
+		test("should decode and encode dates and URLs with built-in handlers", () => {
+			const date = new Date("2013-03-21T20:04:00Z");
+			expect(CBOR.decode(fromHex("c11a514b67b0"))).toEqual(date);
+			expect(
+				CBOR.decode(fromHex("c074323031332d30332d32315432303a30343a30305a")),
+			).toEqual(date);
+			expect(toHex(CBOR.encode(date))).toBe("c11a514b67b0");
+			expect(toHex(CBOR.encode(new Date(1500)))).toBe("c1f93e00");
+
+			const url = new URL("http://a.b/");
+			const encoded = CBOR.encode(url);
+			expect(toHex(encoded)).toBe("d8206b687474703a2f2f612e622f");
+			expect(CBOR.decode(encoded)).toEqual(url);
+			// 55799(1)
+			expect(CBOR.decode(fromHex("d9d9f701"))).toBe(1);
+		});
+
+		test("should allow disabling built-in handlers", () => {
+			const buffer = fromHex("c11a514b67b0");
+			expect(CBOR.decode(buffer, { builtinTags: false })).toEqual(
+				new CBORTag(1, 1363896240),
+			);
+			expect(CBOR.decode(buffer, { tags: { 1: null } })).toEqual(
+				new CBORTag(1, 1363896240),
+			);
+		});
+
+		test("should use per-call and registered handlers", () => {
+			class Point {
+				constructor(
+					readonly x: number,
+					readonly y: number,
+				) {}
+			}
+			const handler = {
+				decode: (value: CBORValue) => {
+					const [x, y] = value as [number, number];
+					return new Point(x, y);
+				},
+				match: (value: unknown): value is Point => value instanceof Point,
+				encode: (point: Point) => [point.x, point.y],
+			};
+			const point = new Point(1, 2);
+
+			const encoded = CBOR.encode({ p: point }, { tags: { 40000: handler } });
+			expect(toHex(encoded)).toBe("a16170d99c40820102");
+			expect(CBOR.decode(encoded)).toEqual({
+				p: new CBORTag(40000, [1, 2]),
+			});
+			// Tag handlers can return any type, which `CBORValue` does not name
+			expect(
+				CBOR.decode(encoded, { tags: { 40000: handler } }) as unknown,
+			).toEqual({
+				p: point,
+			});
+
+			CBOR.registerTag(40000, handler);
+			try {
+				expect(CBOR.decode(CBOR.encode(point)) as unknown).toEqual(point);
+			} finally {
+				CBOR.unregisterTag(40000);
+			}
+			expect(() => CBOR.encode(point)).not.toThrow();
+			expect(CBOR.decode(CBOR.encode(point))).toEqual({ x: 1, y: 2 });
+		});
+
+		test("should encode objects without a handler as maps of their fields", () => {
+			class Rec {
+				id = 1;
+				name = "x";
+			}
+			expect(toHex(CBOR.encode(new Rec()))).toBe("a262696401646e616d656178");
+			expect(toHex(CBOR.encode(runInNewContext("({ a: 1 })")))).toBe(
+				"a1616101",
+			);
+		});
+
+		test("should refuse built-in objects whose handler is disabled", () => {
+			for (const value of [new Set([1]), new Date(0), new URL("http://a.b/")]) {
+				expect(() => CBOR.encode(value, { builtinTags: false })).toThrow(
+					CBOREncodeError,
+				);
+			}
+			expect(() =>
+				CBOR.encode({ at: new Date(0) }, { builtinTags: false }),
+			).toThrow("Unsupported object type for CBOR encoding: Date (path /at)");
+			expect(toHex(CBOR.encode(Object.create(null)))).toBe("a0");
+		});
+
+		test("should report invalid tag content", () => {
+			// 1("x")
+			expect(() => CBOR.decode(fromHex("c16178"))).toThrow(
+				"Invalid content for tag 1: Expected a numeric epoch time at offset 0",
+			);
+			expect(() => CBOR.encode(new Date(Number.NaN))).toThrow(
+				"Cannot encode value for tag 1: Invalid Date",
+			);
+		});
+
+		test("should keep the bytes of encoded CBOR data items", () => {
+			// 24(h'1801'): 1 in a longer than necessary encoding
+			const buffer = fromHex("d818421801");
+			const decoded = CBOR.decode(buffer) as CBOREncoded;
+			expect(decoded).toBeInstanceOf(CBOREncoded);
+			expect(toHex(decoded.bytes)).toBe("1801");
+			expect(decoded.value).toBe(1);
+			expect(toHex(CBOR.encode([decoded]))).toBe("81d818421801");
+			expect(CBOR.decode(buffer, { builtinTags: false })).toEqual(
+				new CBORTag(24, fromHex("1801")),
+			);
+
+			const value = { a: [1] };
+			const encoded = CBOREncoded.from(value);
+			expect(encoded.value).toBe(value);
+			expect(toHex(CBOR.encode(encoded))).toBe("d81845a161618101");
+			expect(
+				toHex(new CBOREncoded(new Uint8Array([0, 1, 2]).subarray(1, 2)).bytes),
+			).toBe("01");
+		});
+
+		test("should decode encoded CBOR data items with any byteStringType", () => {
+			for (const byteStringType of [
+				"arraybuffer",
+				"uint8array",
+				"subarray",
+			] as const) {
+				const decoded = CBOR.decode(fromHex("81d818421801"), {
+					byteStringType,
+				}) as CBOREncoded[];
+				expect(decoded[0]).toBeInstanceOf(CBOREncoded);
+				expect(toHex(decoded[0].bytes)).toBe("1801");
+				expect(decoded[0].value).toBe(1);
+			}
+		});
+
+		test("should decode encoded CBOR data items lazily", () => {
+			// 24(h'18'): truncated content
+			const decoded = CBOR.decode(fromHex("d8184118")) as CBOREncoded;
+			expect(() => decoded.value).toThrow(CBORDecodeError);
+			// 24(1)
+			expect(() => CBOR.decode(fromHex("d81801"))).toThrow(
+				"Invalid content for tag 24: Expected a byte string at offset 0",
+			);
+		});
+
+		test("should reject invalid tag numbers", () => {
+			expect(() => CBOR.encode(new CBORTag(-1, 0))).toThrow(CBOREncodeError);
+		});
+	});
+
+	describe("native types", () => {
+		test("should encode any ArrayBufferView as a byte string", () => {
+			const buffer = new Uint8Array([0, 1, 2, 3, 4]).buffer;
+			expect(toHex(CBOR.encode(new Uint8Array(buffer, 1, 3)))).toBe("43010203");
+			expect(toHex(CBOR.encode(new DataView(buffer, 3)))).toBe("420304");
+			expect(toHex(CBOR.encode({ a: new Uint8Array([1]) }))).toBe("a161614101");
+		});
+
+		test("should encode and decode Sets with tag 258", () => {
+			const set = new Set([1, "a"]);
+			const encoded = CBOR.encode(set);
+			expect(toHex(encoded)).toBe("d9010282016161");
+			expect(CBOR.decode(encoded)).toEqual(set);
+		});
+
+		test("should decode byte strings as Uint8Array on request", () => {
+			const decoded = CBOR.decode(fromHex("82430102035f4101420203ff"), {
+				byteStringType: "uint8array",
+			});
+			expect(decoded).toEqual([
+				new Uint8Array([1, 2, 3]),
+				new Uint8Array([1, 2, 3]),
+			]);
+			// bignums still decode to integers
+			expect(
+				CBOR.decode(fromHex("c249010000000000000000"), {
+					byteStringType: "uint8array",
+				}),
+			).toBe(2n ** 64n);
+		});
+
+		test("should decode from a view honouring its offset and length", () => {
+			const input = fromHex("ff8201430a0b0cff");
+			const view = new Uint8Array(input, 1, 6);
+			expect(CBOR.decode(view, { strict: true })).toEqual([
+				1,
+				new Uint8Array([10, 11, 12]).buffer,
+			]);
+			expect(CBOR.decode(new DataView(input, 3, 4))).toEqual(
+				new Uint8Array([10, 11, 12]).buffer,
+			);
+			expect(CBOR.decodeWithOffset(view, 1)).toEqual([1, 1]);
+			expect(CBOR.decodeSequence(new Uint8Array(input, 2, 5))).toEqual([
+				1,
+				new Uint8Array([10, 11, 12]).buffer,
+			]);
+			// offsets are relative to the start of the view
+			try {
+				CBOR.decode(new Uint8Array(input, 1), { strict: true });
+				throw new Error("Expected decoding to fail");
+			} catch (error) {
+				expect(error).toMatchObject({ code: "TRAILING_BYTES", offset: 6 });
+			}
+		});
+
+		test("should decode byte strings as views into the input on request", () => {
+			const input = new Uint8Array(fromHex("00a2616142010261625f4103ff"));
+			const decoded = CBOR.decode(input.subarray(1), {
+				byteStringType: "subarray",
+			}) as { a: Uint8Array; b: Uint8Array };
+			expect(decoded.a).toEqual(new Uint8Array([1, 2]));
+			expect(decoded.a.buffer).toBe(input.buffer);
+			expect(decoded.a.byteOffset).toBe(5);
+			input[5] = 9;
+			expect(decoded.a[0]).toBe(9);
+			// indefinite-length byte strings are copied
+			expect(decoded.b).toEqual(new Uint8Array([3]));
+			expect(decoded.b.buffer).not.toBe(input.buffer);
+		});
+
+		test("should round-trip native values", () => {
+			const value = {
+				bytes: new Uint8Array([1, 2]),
+				date: new Date(0),
+				set: new Set(["x"]),
+				map: new Map([[1n << 70n, "big"]]),
+			};
+			expect(
+				CBOR.decode(CBOR.encode(value), {
+					byteStringType: "uint8array",
+					mapType: "map",
+				}),
+			).toEqual(
+				new Map<CBORValue, CBORValue>([
+					["bytes", value.bytes],
+					["date", value.date],
+					["set", value.set],
+					["map", value.map],
+				]),
+			);
+		});
+	});
+
+	describe("typed arrays", () => {
+		test("should encode typed arrays with RFC 8746 tags", () => {
+			expect(toHex(CBOR.encode(new Float32Array([1.5])))).toBe(
+				"d855440000c03f",
+			);
+			expect(
+				toHex(
+					CBOR.encode(new Float32Array([1.5]), {
+						typedArrayEndianness: "big",
+					}),
+				),
+			).toBe("d851443fc00000");
+			expect(toHex(CBOR.encode(new Uint16Array([1, 2])))).toBe(
+				"d8454401000200",
+			);
+			expect(
+				toHex(
+					CBOR.encode(new Uint16Array([1, 2]), {
+						typedArrayEndianness: "big",
+					}),
+				),
+			).toBe("d8414400010002");
+			expect(toHex(CBOR.encode(new Int8Array([-1])))).toBe("d84841ff");
+			// Uint8Array stays a plain byte string
+			expect(toHex(CBOR.encode(new Uint8Array([1])))).toBe("4101");
+		});
+
+		test("should decode typed arrays in both byte orders", () => {
+			expect(CBOR.decode(fromHex("d8454401000200"))).toEqual(
+				new Uint16Array([1, 2]),
+			);
+			expect(CBOR.decode(fromHex("d8414400010002"))).toEqual(
+				new Uint16Array([1, 2]),
+			);
+			expect(CBOR.decode(fromHex("d840420102"))).toEqual(
+				new Uint8Array([1, 2]),
+			);
+		});
+
+		test("should round-trip typed arrays", () => {
+			const arrays = [
+				new Int16Array([-2, 3]),
+				new Uint32Array([0xffffffff]),
+				new Int32Array([-5]),
+				new BigUint64Array([2n ** 64n - 1n]),
+				new BigInt64Array([-(2n ** 63n)]),
+				new Float64Array([Math.PI, Number.NEGATIVE_INFINITY]),
+				new Uint8ClampedArray([255]),
+				new Float32Array(new ArrayBuffer(12), 4, 2).fill(0.25),
+			];
+			for (const typedArrayEndianness of ["little", "big"] as const) {
+				for (const array of arrays) {
+					const encoded = CBOR.encode(array, { typedArrayEndianness });
+					expect(CBOR.decode(encoded)).toEqual(array);
+				}
+			}
+		});
+
+		test("should reject typed arrays with a partial element", () => {
+			expect(() => CBOR.decode(fromHex("d84543010203"))).toThrow(
+				"Typed array tag 69 content length 3 is not a multiple of 2",
+			);
+		});
+	});
+
+	describe("64-bit and bignum integers", () => {
+		test("should decode integers beyond the safe range as bigint", () => {
+			expect(CBOR.decode(fromHex("1bffffffffffffffff"))).toBe(
+				18446744073709551615n,
+			);
+			expect(CBOR.decode(fromHex("3bffffffffffffffff"))).toBe(
+				-18446744073709551616n,
+			);
+			expect(CBOR.decode(fromHex("1b0020000000000000"))).toBe(
+				9007199254740992n,
+			);
+		});
+
+		test("should keep safe 64-bit integers as numbers", () => {
+			expect(CBOR.decode(fromHex("1b001fffffffffffff"))).toBe(
+				Number.MAX_SAFE_INTEGER,
+			);
+			expect(CBOR.decode(fromHex("3b001ffffffffffffe"))).toBe(
+				Number.MIN_SAFE_INTEGER,
+			);
+		});
+
+		test("should decode every integer as bigint when useBigInt is set", () => {
+			expect(CBOR.decode(fromHex("01"), { useBigInt: true })).toBe(1n);
+			expect(CBOR.decode(fromHex("3863"), { useBigInt: true })).toBe(-100n);
+			expect(CBOR.decode(fromHex("820120"), { useBigInt: true })).toEqual([
+				1n,
+				-1n,
+			]);
+			expect(CBOR.decode(fromHex("a10102"), { useBigInt: true })).toEqual({
+				1: 2n,
+			});
+		});
+
+		test("should decode bignums (tags 2 and 3)", () => {
+			expect(CBOR.decode(fromHex("c249010000000000000000"))).toBe(
+				18446744073709551616n,
+			);
+			expect(CBOR.decode(fromHex("c349010000000000000000"))).toBe(
+				-18446744073709551617n,
+			);
+			expect(CBOR.decode(fromHex("c240"))).toBe(0);
+			expect(CBOR.decode(fromHex("c240"), { useBigInt: true })).toBe(0n);
+		});
+
+		test("should reject bignums whose content is not a byte string", () => {
+			expect(() => CBOR.decode(fromHex("c201"))).toThrow(
+				"Bignum tag content must be a byte string",
+			);
+		});
+
+		test("should encode bigints with the shortest integer head", () => {
+			expect(toHex(CBOR.encode(0n))).toBe("00");
+			expect(toHex(CBOR.encode(500n))).toBe("1901f4");
+			expect(toHex(CBOR.encode(-500n))).toBe("3901f3");
+			expect(toHex(CBOR.encode(18446744073709551615n))).toBe(
+				"1bffffffffffffffff",
+			);
+			expect(toHex(CBOR.encode(-18446744073709551616n))).toBe(
+				"3bffffffffffffffff",
+			);
+		});
+
+		test("should encode bigints beyond 64 bits as bignums", () => {
+			expect(toHex(CBOR.encode(18446744073709551616n))).toBe(
+				"c249010000000000000000",
+			);
+			expect(toHex(CBOR.encode(-18446744073709551617n))).toBe(
+				"c349010000000000000000",
+			);
+		});
+
+		test("should encode numbers beyond the safe range as floats", () => {
+			expect(toHex(CBOR.encode(2 ** 60))).toBe("fa5d800000");
+			expect(CBOR.decode(CBOR.encode(2 ** 53))).toBe(2 ** 53);
+		});
+
+		test("should round-trip arbitrary bigints", () => {
+			fc.assert(
+				fc.property(fc.bigInt(), (n) => {
+					const decoded = CBOR.decode(CBOR.encode(n), { useBigInt: true });
+					expect(decoded).toBe(n);
+				}),
+			);
+		});
+	});
+
+	describe("floating-point numbers", () => {
+		test("should decode half-precision floats", () => {
+			const vectors: [string, number][] = [
+				["f90000", 0],
+				["f98000", -0],
+				["f93c00", 1],
+				["f93e00", 1.5],
+				["f97bff", 65504],
+				["f90001", 2 ** -24],
+				["f90400", 0.00006103515625],
+				["f9c400", -4],
+				["f97c00", Number.POSITIVE_INFINITY],
+				["f9fc00", Number.NEGATIVE_INFINITY],
+			];
+			for (const [hex, value] of vectors) {
+				expect(CBOR.decode(fromHex(hex))).toBe(value);
+			}
+			expect(CBOR.decode(fromHex("f97e00"))).toBeNaN();
+			expect(CBOR.decode(fromHex("f97c01"))).toBeNaN();
+		});
+
+		test("should decode single- and double-precision floats", () => {
+			expect(CBOR.decode(fromHex("fa47c35000"))).toBe(100000);
+			expect(CBOR.decode(fromHex("fa7f7fffff"))).toBe(3.4028234663852886e38);
+			expect(CBOR.decode(fromHex("fb3ff199999999999a"))).toBe(1.1);
+			expect(CBOR.decode(fromHex("fbc010666666666666"))).toBe(-4.1);
+		});
+
+		test("should encode floats in the shortest lossless form", () => {
+			const vectors: [number, string][] = [
+				[1.5, "f93e00"],
+				[-0, "f98000"],
+				[65504.5, "fa477fe080"],
+				[2 ** -24, "f90001"],
+				[0.00006103515625, "f90400"],
+				[100000.5, "fa47c35040"],
+				[3.4028234663852886e38, "fa7f7fffff"],
+				[1.1, "fb3ff199999999999a"],
+				[1e300, "fb7e37e43c8800759c"],
+				[Number.POSITIVE_INFINITY, "f97c00"],
+				[Number.NEGATIVE_INFINITY, "f9fc00"],
+				[Number.NaN, "f97e00"],
+			];
+			for (const [value, hex] of vectors) {
+				expect(toHex(CBOR.encode(value))).toBe(hex);
+			}
+		});
+
+		test("should round-trip arbitrary doubles", () => {
+			fc.assert(
+				fc.property(fc.double(), (n) => {
+					expect(CBOR.decode(CBOR.encode(n))).toBe(n);
+				}),
+			);
+		});
+	});
+
+	describe("deterministic encoding", () => {
+		const value = { 10: "a", 2: "b", 100: "c", [-1]: "d", z: "e", aa: "f" };
+
+		test("should sort map keys bytewise in core mode", () => {
+			expect(toHex(CBOR.encode(value, { deterministic: "core" }))).toBe(
+				"a60261620a616118646163206164617a61656261616166",
+			);
+		});
+
+		test("should sort map keys length-first in length-first mode", () => {
+			expect(toHex(CBOR.encode(value, { deterministic: "length-first" }))).toBe(
+				"a60261620a616120616418646163617a61656261616166",
+			);
+		});
+
+		test("should sort nested maps", () => {
+			const nested = { outer: { b: 1, a: 2 } };
+			expect(toHex(CBOR.encode(nested, { deterministic: "core" }))).toBe(
+				"a1656f75746572a2616102616201",
+			);
+		});
+
+		test("should reject keys that encode to the same bytes", () => {
+			for (const mode of ["core", "length-first"] as const) {
+				expect(() =>
+					CBOR.encode(
+						new Map<CBORValue, CBORValue>([
+							[1, "a"],
+							[1n, "b"],
+						]),
+						{ deterministic: mode },
+					),
+				).toThrow("Map keys encode to the same bytes (path /1)");
+				expect(() =>
+					CBOR.encode(
+						new Map([
+							[new Uint8Array([1]), "a"],
+							[new Uint8Array([1]), "b"],
+						]),
+						{ deterministic: mode },
+					),
+				).toThrow(CBOREncodeError);
+			}
+			expect(
+				toHex(
+					CBOR.encode(
+						new Map<CBORValue, CBORValue>([
+							[1, "a"],
+							[1n, "b"],
+						]),
+					),
+				),
+			).toBe("a2016161016162");
+		});
+
+		test("should reject indefinite-length encoding", () => {
+			expect(() =>
+				CBOR.encode([], { deterministic: "core", indefiniteLength: true }),
+			).toThrow(
+				"Indefinite-length items are not allowed in deterministic mode",
+			);
+		});
+
+		test("should accept deterministically encoded input", () => {
+			for (const mode of ["core", "length-first"] as const) {
+				const encoded = CBOR.encode(
+					{ ...value, nested: [1.5, 100000, 2n ** 64n, { y: 1, x: 2 }] },
+					{ deterministic: mode },
+				);
+				expect(() =>
+					CBOR.decode(encoded, { deterministic: mode }),
+				).not.toThrow();
+			}
+		});
+
+		test("should reject non-shortest integer and length heads", () => {
+			for (const hex of [
+				"1817",
+				"190017",
+				"3817",
+				"5800",
+				"780161",
+				"d81701",
+			]) {
+				expect(() =>
+					CBOR.decode(fromHex(hex), { deterministic: "core" }),
+				).toThrow(
+					"Non-shortest integer or length encoding is not allowed in deterministic mode",
+				);
+			}
+			expect(CBOR.decode(fromHex("1817"))).toBe(23);
+		});
+
+		test("should reject non-shortest floats", () => {
+			for (const hex of [
+				"fa3fc00000",
+				"fb3ff8000000000000",
+				"fb7ff8000000000000",
+			]) {
+				expect(() =>
+					CBOR.decode(fromHex(hex), { deterministic: "core" }),
+				).toThrow(
+					"Non-shortest float encoding is not allowed in deterministic mode",
+				);
+			}
+		});
+
+		test("should reject indefinite-length items", () => {
+			expect(() =>
+				CBOR.decode(fromHex("9f01ff"), { deterministic: "core" }),
+			).toThrow(
+				"Indefinite-length items are not allowed in deterministic mode",
+			);
+		});
+
+		test("should reject unsorted map keys", () => {
+			// {"b": 1, "a": 2}
+			expect(() =>
+				CBOR.decode(fromHex("a2616201616102"), { deterministic: "core" }),
+			).toThrow("Map keys are not in deterministic order");
+			// {100: 1, -1: 2} is core but not length-first order
+			expect(() =>
+				CBOR.decode(fromHex("a21864012002"), { deterministic: "length-first" }),
+			).toThrow("Map keys are not in deterministic order");
+			expect(
+				CBOR.decode(fromHex("a21864012002"), { deterministic: "core" }),
+			).toEqual({ 100: 1, [-1]: 2 });
+		});
+
+		test("should reject non-minimal bignums", () => {
+			expect(() =>
+				CBOR.decode(fromHex("c24101"), { deterministic: "core" }),
+			).toThrow(
+				"Bignums must be minimal and exceed 64 bits in deterministic mode",
+			);
+		});
+
+		test("should produce identical bytes regardless of key insertion order", () => {
+			fc.assert(
+				fc.property(fc.dictionary(fc.string(), fc.integer()), (dict) => {
+					const reversed: Record<string, number> = Object.fromEntries(
+						Object.entries(dict).reverse(),
+					);
+					expect(toHex(CBOR.encode(reversed, { deterministic: "core" }))).toBe(
+						toHex(CBOR.encode(dict, { deterministic: "core" })),
+					);
+				}),
+			);
+		});
+	});
+
+	describe("strict decoding", () => {
+		test("should reject duplicate map keys", () => {
+			// {"a": 1, "a": 2}
+			const duplicated = fromHex("a2616101616102");
+			expect(CBOR.decode(duplicated)).toEqual({ a: 2 });
+			expect(() => CBOR.decode(duplicated, { strict: true })).toThrow(
+				'Strict mode: duplicate map key "a"',
+			);
+		});
+
+		test("should reject integer and string keys that collide", () => {
+			// {1: 1, "1": 2}
+			expect(() =>
+				CBOR.decode(fromHex("a20101613102"), { strict: true }),
+			).toThrow('Strict mode: duplicate map key "1"');
+		});
+
+		test("should reject duplicate keys in nested indefinite-length maps", () => {
+			expect(() =>
+				CBOR.decode(fromHex("81bf01010102ff"), { strict: true }),
+			).toThrow("Strict mode: duplicate map key 1");
+		});
+
+		test("should reject trailing bytes", () => {
+			expect(CBOR.decode(fromHex("0102"))).toBe(1);
+			expect(() => CBOR.decode(fromHex("010203"), { strict: true })).toThrow(
+				"Strict mode: 2 trailing bytes after top-level item",
+			);
+			expect(
+				CBOR.decodeWithOffset(fromHex("0102"), 0, { strict: true }),
+			).toEqual([1, 1]);
+		});
+
+		test("should accept well-formed input", () => {
+			const value = { a: [1, 2, { b: "c" }], d: null };
+			expect(CBOR.decode(CBOR.encode(value), { strict: true })).toEqual(value);
+		});
+
+		test("should reject reserved additional info values", () => {
+			for (const hex of ["1c", "3d", "5e", "7c", "9d", "be", "dc", "fd"]) {
+				expect(() => CBOR.decode(fromHex(hex))).toThrow(
+					/Reserved additional info (28|29|30) is not well-formed/,
+				);
+			}
+		});
+
+		test("should reject two-byte simple values below 32", () => {
+			expect(() => CBOR.decode(fromHex("f814"))).toThrow(
+				"Two-byte simple value 20 below 32 is not well-formed",
+			);
+			expect(() => CBOR.decode(fromHex("f81f"))).toThrow(
+				"Two-byte simple value 31 below 32 is not well-formed",
+			);
+		});
+	});
+
+	describe("errors", () => {
+		function catchError(fn: () => unknown): unknown {
+			try {
+				fn();
+			} catch (error) {
+				return error;
+			}
+			throw new Error("Expected function to throw");
+		}
+
+		test("should report code, offset and path of truncated input", () => {
+			// [1, [2, <missing>]]
+			const error = catchError(() => CBOR.decode(fromHex("83018202")));
+			expect(error).toBeInstanceOf(CBORDecodeError);
+			expect(error).toMatchObject({
+				name: "CBORDecodeError",
+				code: "UNEXPECTED_END",
+				offset: 4,
+				path: "/1/1",
+			});
+			expect((error as Error).message).toBe(
+				"Buffer too short for CBOR decoding at offset 4 (path /1/1)",
+			);
+		});
+
+		test("should report map keys in the path", () => {
+			// {"a": [1, <invalid UTF-8>]}
+			const error = catchError(() => CBOR.decode(fromHex("a16161820161ff")));
+			expect(error).toMatchObject({
+				code: "INVALID_UTF8",
+				offset: 6,
+				path: "/a/1",
+			});
+			const escaped = catchError(() => CBOR.decode(fromHex("a163622f7e7a")));
+			expect(escaped).toMatchObject({ code: "UNEXPECTED_END", path: "/b~1~0" });
+			const numeric = catchError(() => CBOR.decode(fromHex("a121f81f")));
+			expect(numeric).toMatchObject({
+				code: "INVALID_SIMPLE_VALUE",
+				offset: 2,
+				path: "/-2",
+			});
+		});
+
+		test("should report an empty path for top-level failures", () => {
+			const error = catchError(() => CBOR.decode(fromHex("1c")));
+			expect(error).toMatchObject({
+				code: "RESERVED_ADDITIONAL_INFO",
+				offset: 0,
+				path: "",
+			});
+			expect((error as Error).message).toBe(
+				"Reserved additional info 28 is not well-formed at offset 0",
+			);
+		});
+
+		test("should report the offset of the rejected item", () => {
+			expect(
+				catchError(() =>
+					CBOR.decode(fromHex("820118ffff"), {
+						strict: true,
+					}),
+				),
+			).toMatchObject({ code: "TRAILING_BYTES", offset: 4 });
+			expect(
+				catchError(() =>
+					CBOR.decode(fromHex("8201a2616201616102"), { deterministic: "core" }),
+				),
+			).toMatchObject({ code: "NON_DETERMINISTIC", offset: 6, path: "/1" });
+		});
+
+		test("should throw CBOREncodeError with the path of unsupported values", () => {
+			const value = { list: [1, (() => {}) as unknown as CBORValue] };
+			const error = catchError(() => CBOR.encode(value));
+			expect(error).toBeInstanceOf(CBOREncodeError);
+			expect(error).toMatchObject({
+				name: "CBOREncodeError",
+				code: "UNSUPPORTED_TYPE",
+				path: "/list/1",
+			});
+			expect((error as Error).message).toBe(
+				"Unsupported value type for CBOR encoding: function (path /list/1)",
+			);
+		});
+
+		test("should throw CBOREncodeError for conflicting options", () => {
+			expect(
+				catchError(() =>
+					CBOR.encode([], { deterministic: "core", indefiniteLength: true }),
+				),
+			).toMatchObject({ code: "INVALID_OPTIONS" });
+		});
+	});
+
+	describe("map keys", () => {
+		test("should keep the CBOR type of keys when decoding to Map", () => {
+			// {1: "a", "1": "b", h'01': "c", [1]: "d", -1: "e"}
+			const decoded = CBOR.decode(
+				fromHex("a5016161613161624101616381016164206165"),
+				{ mapType: "map" },
+			) as Map<CBORValue, CBORValue>;
+			expect(decoded).toBeInstanceOf(Map);
+			const entries = [...decoded];
+			expect(entries[0]).toEqual([1, "a"]);
+			expect(entries[1]).toEqual(["1", "b"]);
+			expect(new Uint8Array(entries[2][0] as ArrayBuffer)).toEqual(
+				new Uint8Array([1]),
+			);
+			expect(entries[2][1]).toBe("c");
+			expect(entries[3]).toEqual([[1], "d"]);
+			expect(entries[4]).toEqual([-1, "e"]);
+		});
+
+		test("should decode nested maps as Map", () => {
+			const decoded = CBOR.decode(fromHex("a16161a10102"), {
+				mapType: "map",
+			});
+			expect(decoded).toEqual(new Map([["a", new Map([[1, 2]])]]));
+		});
+
+		test("should reject non-scalar keys when decoding to objects", () => {
+			expect(() => CBOR.decode(fromHex("a1410100"))).toThrow(CBORDecodeError);
+		});
+
+		test("should detect duplicate byte string keys in strict mode", () => {
+			// {h'01': 0, h'01': 1}
+			expect(() =>
+				CBOR.decode(fromHex("a2410100410101"), {
+					mapType: "map",
+					strict: true,
+				}),
+			).toThrow("Strict mode: duplicate map key");
+			expect(() =>
+				CBOR.decode(fromHex("a2010002f5"), { mapType: "map", strict: true }),
+			).not.toThrow();
+		});
+
+		test("should reject scalar Map keys that collapse into one entry in strict mode", () => {
+			const options = { mapType: "map", strict: true } as const;
+			// {0.0: 1, -0.0: 2} and {1: 1, 1.0: 2}
+			for (const hex of ["a2f9000001f9800002", "a20101f93c0002"]) {
+				expect(() => CBOR.decode(fromHex(hex), options)).toThrow(
+					expect.objectContaining({ code: "DUPLICATE_MAP_KEY" }),
+				);
+			}
+			// {1: 1, 1: 2} with a longer head, and 1.5 in half and single precision
+			expect(() => CBOR.decode(fromHex("a20101180102"), options)).toThrow(
+				"Strict mode: duplicate map key 1",
+			);
+			expect(() =>
+				CBOR.decode(fromHex("a2f93e0001fa3fc0000002"), options),
+			).toThrow("Strict mode: duplicate map key 1.5");
+			// {1: 1, "1": 2, 1.5: 3, h'01': 4} keeps every entry
+			const decoded = CBOR.decode(
+				fromHex("a40101613102f93e0003410104"),
+				options,
+			) as Map<CBORValue, CBORValue>;
+			expect([...decoded]).toEqual([
+				[1, 1],
+				["1", 2],
+				[1.5, 3],
+				[new Uint8Array([1]).buffer, 4],
+			]);
+		});
+
+		test("should encode Map keys with their own type in insertion order", () => {
+			const map = new Map<CBORValue, CBORValue>([
+				["b", 1],
+				[1, 2],
+				["1", 3],
+				[new Uint8Array([1]).buffer, 4],
+				[-1, 5],
+			]);
+			expect(toHex(CBOR.encode(map))).toBe("a561620101026131034101042005");
+		});
+
+		test("should sort Map keys in deterministic mode", () => {
+			const map = new Map<CBORValue, CBORValue>([
+				["a", 1],
+				[[1], 2],
+				[10, 3],
+			]);
+			expect(toHex(CBOR.encode(map, { deterministic: "core" }))).toBe(
+				"a30a03616101810102",
+			);
+		});
+
+		test("should not guess key types in decodeMapToMap", () => {
+			// {1: 2, "1": 3}
+			const [map, length] = CBOR.decodeMapToMap(fromHex("a20102613103"));
+			expect([...map]).toEqual([
+				[1, 2],
+				["1", 3],
+			]);
+			expect(length).toBe(6);
+		});
+
+		test("should round-trip Maps", () => {
+			fc.assert(
+				fc.property(
+					fc.uniqueArray(
+						fc.tuple(fc.oneof(fc.integer(), fc.string()), fc.integer()),
+						{ selector: ([key]) => key },
+					),
+					(entries) => {
+						const map = new Map<CBORValue, CBORValue>(entries);
+						expect(CBOR.decode(CBOR.encode(map), { mapType: "map" })).toEqual(
+							map,
+						);
+					},
+				),
+			);
+		});
+	});
+
+	describe("encodeInto", () => {
+		test("should encode into a caller-supplied buffer", () => {
+			const target = new Uint8Array(16).fill(0xaa);
+			const length = CBOR.encodeInto([1, "a"], target.subarray(2));
+			expect(length).toBe(4);
+			expect(toHex(target.slice(0, 8).buffer)).toBe("aaaa82016161aaaa");
+		});
+
+		test("should fit encodings that exactly fill the target", () => {
+			const value = { text: "héllo", bytes: new Uint8Array(3), n: 1.5 };
+			const expected = CBOR.encode(value);
+			const target = new Uint8Array(expected.byteLength);
+			expect(CBOR.encodeInto(value, target)).toBe(expected.byteLength);
+			expect(target).toEqual(new Uint8Array(expected));
+		});
+
+		test("should throw when the target is too small", () => {
+			expect(() => CBOR.encodeInto("hello", new Uint8Array(5))).toThrow(
+				expect.objectContaining({ code: "BUFFER_TOO_SMALL" }),
+			);
+		});
+	});
+
+	describe("text strings", () => {
+		test("should encode strings around head size boundaries", () => {
+			for (const length of [23, 24, 85, 86, 255, 256, 21845, 21846, 65536]) {
+				for (const char of ["a", "é", "€", "😀"]) {
+					const text = char.repeat(Math.ceil(length / char.length));
+					const bytes = new TextEncoder().encode(text);
+					const encoded = new Uint8Array(CBOR.encode(text));
+					expect(encoded.slice(encoded.length - bytes.length)).toEqual(
+						new Uint8Array(bytes),
+					);
+					expect(CBOR.decode(encoded.buffer)).toBe(text);
+				}
+			}
+		});
+
+		test("should keep the ASCII part of a string when the buffer grows", () => {
+			const text = `${"a".repeat(1000)}${"€😀".repeat(500)}`;
+			const bytes = new TextEncoder().encode(text);
+			const encoded = new Uint8Array(CBOR.encode(["x", text]));
+			expect(toHex(encoded.slice(0, 6).buffer)).toBe(
+				`82617879${bytes.length.toString(16).padStart(4, "0")}`,
+			);
+			expect(encoded.slice(6)).toEqual(new Uint8Array(bytes));
+		});
+	});
+
+	describe("sequences", () => {
+		test("should encode values as a CBOR sequence", () => {
+			expect(toHex(CBOR.encodeSequence([1, "a", [2]]))).toBe("0161618102");
+			expect(CBOR.encodeSequence([]).byteLength).toBe(0);
+		});
+
+		test("should decode a CBOR sequence", () => {
+			expect(CBOR.decodeSequence(fromHex("0161618102"))).toEqual([1, "a", [2]]);
+			expect(CBOR.decodeSequence(new ArrayBuffer(0))).toEqual([]);
+		});
+
+		test("should iterate a CBOR sequence with item offsets", () => {
+			const iterator = CBOR.iterateSequence(fromHex("0161618102"));
+			expect(iterator.next().value).toEqual({ value: 1, offset: 0, length: 1 });
+			expect([...iterator]).toEqual([
+				{ value: "a", offset: 1, length: 2 },
+				{ value: [2], offset: 3, length: 2 },
+			]);
+		});
+
+		test("should report a truncated last item", () => {
+			const items: CBORValue[] = [];
+			expect(() => {
+				for (const { value } of CBOR.iterateSequence(fromHex("018201"))) {
+					items.push(value);
+				}
+			}).toThrow(CBORDecodeError);
+			expect(items).toEqual([1]);
+		});
+
+		test("should apply item limits to each item", () => {
+			const encoded = CBOR.encodeSequence([[1], [2], [3]], {
+				maxTotalItems: 2,
+			});
+			expect(CBOR.decodeSequence(encoded, { maxTotalItems: 2 })).toEqual([
+				[1],
+				[2],
+				[3],
+			]);
+		});
+
+		test("should round-trip sequences", () => {
+			fc.assert(
+				fc.property(fc.array(fc.oneof(fc.integer(), fc.string())), (values) => {
+					expect(CBOR.decodeSequence(CBOR.encodeSequence(values))).toEqual(
+						values,
+					);
+				}),
+			);
+		});
+	});
+
+	describe("streaming decoding", () => {
+		async function* chunksOf(
+			buffer: ArrayBuffer,
+			size: number,
+		): AsyncGenerator<Uint8Array> {
+			const bytes = new Uint8Array(buffer);
+			for (let i = 0; i < bytes.length; i += size) {
+				yield bytes.slice(i, i + size);
+			}
+		}
+
+		async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+			const items: T[] = [];
+			for await (const item of iterable) items.push(item);
+			return items;
+		}
+
+		test("should decode items split across chunks", async () => {
+			// 1, "a", [2], (_ h'01', h'02')
+			const buffer = fromHex("01616181025f41014102ff");
+			const items = await collect(CBOR.decodeStream(chunksOf(buffer, 1)));
+			expect(items.map(({ offset, length }) => [offset, length])).toEqual([
+				[0, 1],
+				[1, 2],
+				[3, 2],
+				[5, 6],
+			]);
+			expect(items.slice(0, 3).map((item) => item.value)).toEqual([
+				1,
+				"a",
+				[2],
+			]);
+		});
+
+		test("should read from a ReadableStream", async () => {
+			const stream = new ReadableStream<Uint8Array>({
+				start(controller) {
+					controller.enqueue(new Uint8Array([0x82, 0x01]));
+					controller.enqueue(new Uint8Array([0x02, 0xf5]));
+					controller.close();
+				},
+			});
+			const items = await collect(CBOR.decodeStream(stream));
+			expect(items.map((item) => item.value)).toEqual([[1, 2], true]);
+		});
+
+		test("should yield each item as soon as it is complete", async () => {
+			const iterator = CBOR.decodeStream(
+				(async function* () {
+					yield new Uint8Array([0x01, 0x82]);
+					yield new Uint8Array([0x02]);
+					throw new Error("source failed");
+				})(),
+			);
+			expect((await iterator.next()).value).toEqual({
+				value: 1,
+				offset: 0,
+				length: 1,
+			});
+			await expect(iterator.next()).rejects.toThrow("source failed");
+		});
+
+		test("should report truncated and malformed items at stream offsets", async () => {
+			await expect(
+				collect(CBOR.decodeStream(chunksOf(fromHex("018201"), 1))),
+			).rejects.toMatchObject({ code: "UNEXPECTED_END", offset: 3 });
+			await expect(
+				collect(CBOR.decodeStream(chunksOf(fromHex("01811c"), 2))),
+			).rejects.toMatchObject({ code: "RESERVED_ADDITIONAL_INFO", offset: 2 });
+		});
+
+		test("should stop buffering items larger than maxBytes", async () => {
+			// A byte string announced as 1 MiB
+			const header = fromHex("5a00100000");
+			await expect(
+				collect(CBOR.decodeStream(chunksOf(header, 5), { maxBytes: 1024 })),
+			).rejects.toMatchObject({ code: "LIMIT_EXCEEDED" });
+			// An indefinite-length array that never ends
+			const endless = (async function* () {
+				yield new Uint8Array([0x9f]);
+				for (;;) yield new Uint8Array(64);
+			})();
+			await expect(
+				collect(CBOR.decodeStream(endless, { maxBytes: 1024 })),
+			).rejects.toThrow("Item exceeds maxBytes (1024)");
+		});
+
+		test("should decode any sequence regardless of chunking", async () => {
+			await fc.assert(
+				fc.asyncProperty(
+					fc.array(
+						fc.oneof(
+							fc.integer(),
+							fc.string(),
+							fc.array(fc.integer()),
+							fc.dictionary(fc.string(), fc.boolean()),
+						),
+					),
+					fc.integer({ min: 1, max: 16 }),
+					async (values, size) => {
+						const buffer = CBOR.encodeSequence(values, {
+							indefiniteLength: true,
+						});
+						const items = await collect(
+							CBOR.decodeStream(chunksOf(buffer, size)),
+						);
+						expect(items.map((item) => item.value)).toEqual(values);
+					},
+				),
+			);
+		});
+	});
+
+	describe("streaming encoding", () => {
+		function collector(): [Uint8Array[], (chunk: Uint8Array) => void] {
+			const chunks: Uint8Array[] = [];
+			return [chunks, (chunk) => void chunks.push(chunk)];
+		}
+
+		function joined(chunks: Uint8Array[]): string {
+			return chunks.map((chunk) => toHex(chunk.slice().buffer)).join("");
+		}
+
+		test("should stream indefinite and definite containers", async () => {
+			const [chunks, sink] = collector();
+			const encoder = new CBORStreamEncoder(sink);
+			await encoder.startArray();
+			await encoder.write(1);
+			await encoder.startMap(1);
+			await encoder.write("a");
+			await encoder.write([2]);
+			await encoder.end();
+			await encoder.end();
+			await encoder.write(true);
+			await encoder.close();
+			expect(joined(chunks)).toBe("9f01a161618102fff5");
+		});
+
+		test("should flush whenever chunkSize bytes are buffered", async () => {
+			const [chunks, sink] = collector();
+			const encoder = new CBORStreamEncoder(sink, { chunkSize: 4 });
+			await encoder.startArray(3);
+			await encoder.write("abc");
+			expect(chunks.length).toBe(1);
+			await encoder.write(1);
+			await encoder.write(2);
+			expect(chunks.length).toBe(1);
+			await encoder.end();
+			await encoder.close();
+			expect(joined(chunks)).toBe("83636162630102");
+		});
+
+		test("should write to a WritableStream", async () => {
+			const chunks: Uint8Array[] = [];
+			let closed = false;
+			const stream = new WritableStream<Uint8Array>({
+				write(chunk) {
+					chunks.push(chunk);
+				},
+				close() {
+					closed = true;
+				},
+			});
+			const encoder = new CBORStreamEncoder(stream, { chunkSize: 1 });
+			await encoder.startMap();
+			await encoder.write(1);
+			await encoder.write(2);
+			await encoder.end();
+			await encoder.close();
+			expect(closed).toBe(true);
+			expect(CBOR.decode(concatenate(chunks))).toEqual({ 1: 2 });
+		});
+
+		test("should reject misuse of containers", async () => {
+			const encoder = new CBORStreamEncoder(() => {});
+			await expect(encoder.end()).rejects.toMatchObject({
+				code: "INVALID_STATE",
+			});
+			await encoder.startArray(1);
+			await encoder.write(1);
+			await expect(encoder.write(2)).rejects.toThrow(
+				"Array already has all of its 1 items",
+			);
+			await encoder.end();
+			await encoder.startArray(2);
+			await expect(encoder.end()).rejects.toThrow(
+				"Array ended after 0 of 2 items",
+			);
+			await encoder.startMap();
+			await encoder.write("key");
+			await expect(encoder.end()).rejects.toThrow(
+				"Map ended after a key without a value",
+			);
+			await expect(encoder.close()).rejects.toMatchObject({
+				code: "INVALID_STATE",
+			});
+			expect(
+				() => new CBORStreamEncoder(() => {}, { deterministic: "core" }),
+			).not.toThrow();
+			await expect(
+				new CBORStreamEncoder(() => {}, {
+					deterministic: "core",
+				}).startArray(),
+			).rejects.toMatchObject({ code: "INVALID_OPTIONS" });
+		});
+
+		test("should refuse streamed maps in deterministic mode", async () => {
+			const [chunks, sink] = collector();
+			const encoder = new CBORStreamEncoder(sink, { deterministic: "core" });
+			await expect(encoder.startMap(2)).rejects.toThrow(
+				"Streamed maps cannot be sorted in deterministic mode; write the map as one value",
+			);
+			await encoder.startArray(1);
+			await encoder.write({ b: 1, a: 2 });
+			await encoder.end();
+			await encoder.close();
+			expect(joined(chunks)).toBe("81a2616102616201");
+		});
+
+		test("should stop encoding a value once it exceeds maxBytes", async () => {
+			const [chunks, sink] = collector();
+			const encoder = new CBORStreamEncoder(sink, { maxBytes: 64 });
+			const unreachable = {
+				toCBOR() {
+					throw new Error("Encoded past maxBytes");
+				},
+			};
+			await encoder.startArray();
+			await expect(
+				encoder.write([new Uint8Array(100), unreachable]),
+			).rejects.toThrow("Encoded data exceeds maxBytes (64)");
+			await encoder.write(1);
+			await encoder.end();
+			await encoder.close();
+			expect(joined(chunks)).toBe("9f01ff");
+		});
+
+		test("should round-trip streamed arrays", async () => {
+			await fc.assert(
+				fc.asyncProperty(
+					fc.array(fc.oneof(fc.integer(), fc.string())),
+					fc.integer({ min: 1, max: 64 }),
+					async (values, chunkSize) => {
+						const [chunks, sink] = collector();
+						const encoder = new CBORStreamEncoder(sink, { chunkSize });
+						await encoder.startArray(values.length);
+						for (const value of values) await encoder.write(value);
+						await encoder.end();
+						await encoder.close();
+						expect(CBOR.decode(concatenate(chunks))).toEqual(values);
+					},
+				),
+			);
+		});
+	});
+
+	describe("diagnostic notation", () => {
+		test("should print the RFC 8949 Appendix A examples", () => {
+			const examples: [string, string][] = [
+				["1903e8", "1000"],
+				["3903e7", "-1000"],
+				["3bffffffffffffffff", "-18446744073709551616"],
+				["c249010000000000000000", "2(h'010000000000000000')"],
+				["f98000", "-0.0"],
+				["fb3ff199999999999a", "1.1"],
+				["fa47c35000", "100000.0"],
+				["fb7e37e43c8800759c", "1.0e+300"],
+				["f90001", "5.960464477539063e-8"],
+				["f9fc00", "-Infinity"],
+				["f97e00", "NaN"],
+				["f7", "undefined"],
+				["f0", "simple(16)"],
+				["f8ff", "simple(255)"],
+				[
+					"c074323031332d30332d32315432303a30343a30305a",
+					'0("2013-03-21T20:04:00Z")',
+				],
+				[
+					"d82076687474703a2f2f7777772e6578616d706c652e636f6d",
+					'32("http://www.example.com")',
+				],
+				["4401020304", "h'01020304'"],
+				["62225c", '"\\"\\\\"'],
+				["63e6b0b4", '"水"'],
+				["8301820203820405", "[1, [2, 3], [4, 5]]"],
+				["a201020304", "{1: 2, 3: 4}"],
+				["a26161016162820203", '{"a": 1, "b": [2, 3]}'],
+				["5f42010243030405ff", "h'0102030405'"],
+				["7f657374726561646d696e67ff", '"streaming"'],
+			];
+			for (const [hex, diagnostic] of examples) {
+				expect(CBOR.toDiagnostic(fromHex(hex))).toBe(diagnostic);
+			}
+		});
+
+		test("should show encoding indicators on request", () => {
+			const examples: [string, string][] = [
+				["1818", "24_0"],
+				["1b0000000000000001", "1_3"],
+				["f93c00", "1.0_1"],
+				["fa3f800000", "1.0_2"],
+				["d9d9f780", "55799_1([])"],
+				["6161", '"a"'],
+				["780161", '"a"_0'],
+				["9fff", "[_ ]"],
+				["98020102", "[_0 1, 2]"],
+				["9f018202039f0405ffff", "[_ 1, [2, 3], [_ 4, 5]]"],
+				["bf61610161629f0203ffff", '{_ "a": 1, "b": [_ 2, 3]}'],
+				["5f4201025803030405ff", "(_ h'0102', h'030405'_0)"],
+				["7f657374726561646d696e67ff", '(_ "strea", "ming")'],
+				["5fff", "''_"],
+			];
+			for (const [hex, diagnostic] of examples) {
+				expect(
+					CBOR.toDiagnostic(fromHex(hex), { encodingIndicators: true }),
+				).toBe(diagnostic);
+			}
+		});
+
+		test("should print values and sequences", () => {
+			const sign1 = new CBORTag(18, [
+				new Uint8Array([0xa1, 0x01, 0x26]),
+				{},
+				new Uint8Array([0x68, 0x69]),
+				new Uint8Array([0xff]),
+			]);
+			expect(CBOR.toDiagnostic(sign1)).toBe(
+				"18([h'a10126', {}, h'6869', h'ff'])",
+			);
+			expect(CBOR.toDiagnostic(new Uint8Array([0x01, 0x61, 0x61]))).toBe(
+				'1, "a"',
+			);
+			expect(CBOR.toDiagnostic(new ArrayBuffer(0))).toBe("");
+		});
+
+		test("should reject malformed input", () => {
+			expect(() => CBOR.toDiagnostic(fromHex("8201"))).toThrow(CBORDecodeError);
+			expect(() => CBOR.toDiagnostic(fromHex("1f"))).toThrow(CBORDecodeError);
+			expect(() => CBOR.toDiagnostic(fromHex("ff"))).toThrow(CBORDecodeError);
+		});
+
+		test("should parse diagnostic notation", () => {
+			const examples: [string, string][] = [
+				["1000", "1903e8"],
+				["-18446744073709551616", "3bffffffffffffffff"],
+				["18446744073709551616", "c249010000000000000000"],
+				["0x10, 0o10, 0b10, -0x10", "1008022f"],
+				[
+					"1.5, 100000.0, 1.1, -Infinity, NaN",
+					"f93e00fa47c35000fb3ff199999999999af9fc00f97e00",
+				],
+				["1e2", "f95640"],
+				['"\\u00fc", "水"', "62c3bc63e6b0b4"],
+				["h'01 02', b64'AQI', b64'_w', 'hi'", "42010242010241ff426869"],
+				['[1, [2, 3], {}], {1: 2, "a": [_ ]}', "8301820203a0a2010261619fff"],
+				["18([h'a10126', {}, null, h''])", "d28443a10126a0f640"],
+				[
+					"false, true, null, undefined, simple(16), simple(255)",
+					"f4f5f6f7f0f8ff",
+				],
+				[
+					'24_0, 1_3, 1.0_2, "a"_0, [_0 1], 55799_1([])',
+					"18181b0000000000000001fa3f800000780161980101d9d9f780",
+				],
+				[
+					"(_ h'0102', h'030405'_0), (_ \"a\"), ''_",
+					"5f4201025803030405ff7f6161ff5fff",
+				],
+				["", ""],
+			];
+			for (const [diagnostic, hex] of examples) {
+				expect(toHex(CBOR.fromDiagnostic(diagnostic))).toBe(hex);
+			}
+		});
+
+		test("should skip comments", () => {
+			const encoded = CBOR.fromDiagnostic(`
+				/ COSE_Key / {
+					1: 2, # kty: EC2
+					-1: 1 / crv: P-256 /
+				},
+				h'00 / comment / 01 # comment
+				  02'
+			`);
+			expect(toHex(encoded)).toBe("a20102200143000102");
+		});
+
+		test("should throw SyntaxError for malformed text", () => {
+			for (const text of [
+				"[1,",
+				"[1 2]",
+				"{1}",
+				"1 2",
+				"h'0'",
+				"b64'*'",
+				'"\\x"',
+				"simple(24)",
+				"(_ h'01', \"a\")",
+				'"ab"_',
+				"1.1_1",
+				"300_0",
+				"/ unterminated",
+				"@",
+			]) {
+				expect(() => CBOR.fromDiagnostic(text)).toThrow(SyntaxError);
+			}
+		});
+
+		test("should round-trip bytes through diagnostic notation", () => {
+			fc.assert(
+				fc.property(
+					fc.array(
+						fc.oneof(
+							fc.integer(),
+							fc.bigInt(),
+							fc.double(),
+							fc.string(),
+							fc.uint8Array({ maxLength: 16 }),
+							fc.boolean(),
+							fc.constant(null),
+							fc.dictionary(fc.string(), fc.integer()),
+						),
+						{ maxLength: 8 },
+					),
+					fc.boolean(),
+					(values, indefiniteLength) => {
+						const encoded = CBOR.encode(values, { indefiniteLength });
+						// Without indicators, only preferred serialization survives
+						const diagnostic = CBOR.toDiagnostic(encoded, {
+							encodingIndicators: indefiniteLength,
+						});
+						expect(toHex(CBOR.fromDiagnostic(diagnostic))).toBe(toHex(encoded));
+					},
+				),
+			);
+		});
+	});
+
+	describe("annotate", () => {
+		test("should annotate each head and payload by nesting depth", () => {
+			const encoded = CBOR.fromDiagnostic(
+				`18([h'a10126', {4: 'kid'}]), [_ "ab", 1.5, -1000]`,
+			);
+			expect(CBOR.annotate(encoded)).toBe(
+				[
+					"0000  6 18  d2                  # tag(18)",
+					"0001  4  2     82               # array(2)",
+					"0002  2  3        43            # bytes(3)",
+					"0003                 a10126",
+					"0006  5  1        a1            # map(1)",
+					"0007  0  4           04         # unsigned(4)",
+					"0008  2  3           43         # bytes(3)",
+					"0009                    6b6964",
+					"000c  4 31  9f                  # array(*)",
+					"000d  3  2     62               # text(2)",
+					'000e              6162          # "ab"',
+					"0010  7 25     f93e00           # float(1.5)",
+					"0013  1 25     3903e7           # negative(-1000)",
+					"0016  7 31     ff               # break",
+				].join("\n"),
+			);
+		});
+
+		test("should flag heads that are not in preferred form", () => {
+			const lines = CBOR.annotate(
+				CBOR.fromDiagnostic(`[1_0, "a"_1, 1.0_3, (_ h'01'_0)]`),
+			).split("\n");
+			expect(lines.filter((line) => line.endsWith(", not preferred"))).toEqual([
+				"0001  0 24     1801                # unsigned(1), not preferred",
+				"0003  3 25     790001              # text(1), not preferred",
+				"0007  7 27     fb3ff0000000000000  # float(1.0), not preferred",
+				"0011  2 24        5801             # bytes(1), not preferred",
+			]);
+		});
+
+		test("should wrap long payloads", () => {
+			const annotated = CBOR.annotate(CBOR.encode(new Uint8Array(40)));
+			expect(annotated.split("\n").map((line) => line.slice(0, 4))).toEqual([
+				"0000",
+				"0002",
+				"0012",
+				"0022",
+			]);
+		});
+
+		test("should reject malformed input", () => {
+			expect(() => CBOR.annotate(fromHex("8201"))).toThrow(CBORDecodeError);
+			expect(() => CBOR.annotate(fromHex("5f01ff"))).toThrow(CBORDecodeError);
+			expect(() => CBOR.annotate(fromHex("818180"), { maxDepth: 2 })).toThrow(
+				CBORDecodeError,
+			);
+		});
+	});
+
+	describe("JSON conversion", () => {
+		test("should convert values to JSON as in RFC 8949 §6.1", () => {
+			expect(
+				CBOR.toJSON({
+					bytes: new Uint8Array([0xfb, 0xff]),
+					numbers: [1, -1.5, Number.NaN, Number.POSITIVE_INFINITY, undefined],
+					integers: [2n ** 64n - 1n, -(2n ** 64n)],
+					bignums: [2n ** 64n, -(2n ** 64n) - 1n],
+					date: new Date(0),
+					url: new URL("https://example.com/"),
+					set: new Set([true, null]),
+				}),
+			).toBe(
+				'{"bytes":"-_8","numbers":[1,-1.5,null,null,null],' +
+					'"integers":[18446744073709551615,-18446744073709551616],' +
+					'"bignums":["AQAAAAAAAAAA","~AQAAAAAAAAAA"],' +
+					'"date":"1970-01-01T00:00:00.000Z","url":"https://example.com/",' +
+					'"set":[true,null]}',
+			);
+		});
+
+		test("should honour expected-encoding tags 21 to 23", () => {
+			const bytes = new Uint8Array([0xfb, 0xff]);
+			expect(
+				CBOR.toJSON([
+					new CBORTag(21, bytes),
+					new CBORTag(22, [bytes, { a: bytes }]),
+					new CBORTag(23, bytes),
+					new CBORTag(22, new CBORTag(23, bytes)),
+				]),
+			).toBe('["-_8",["+/8=",{"a":"+/8="}],"FBFF","FBFF"]');
+		});
+
+		test("should render unknown tags as configured", () => {
+			const tag = new CBORTag(40000, [1, 2]);
+			expect(CBOR.toJSON(tag)).toBe("[1,2]");
+			expect(CBOR.toJSON(tag, { unknownTags: "object" })).toBe(
+				'{"tag":40000,"value":[1,2]}',
+			);
+			expect(() => CBOR.toJSON([tag], { unknownTags: "error" })).toThrow(
+				new CBOREncodeError(
+					"UNSUPPORTED_TYPE",
+					"Tag 40000 has no JSON representation",
+					"/0",
+				),
+			);
+		});
+
+		test("should convert non-string map keys as configured", () => {
+			const map = new Map<CBORValue, CBORValue>([
+				[1, "a"],
+				[new Uint8Array([1]), "b"],
+				[[1, 2], "c"],
+				[null, "d"],
+			]);
+			expect(CBOR.toJSON(map)).toBe(
+				'{"1":"a","AQ":"b","[1, 2]":"c","null":"d"}',
+			);
+			expect(() => CBOR.toJSON(map, { mapKeys: "error" })).toThrow(
+				CBOREncodeError,
+			);
+			expect(() =>
+				CBOR.toJSON(
+					new Map<CBORValue, CBORValue>([
+						[1, "a"],
+						["1", "b"],
+					]),
+				),
+			).toThrow(
+				new CBOREncodeError(
+					"DUPLICATE_MAP_KEY",
+					'Map keys collide as JSON member "1"',
+					"/1",
+				),
+			);
+		});
+
+		test("should convert JSON to values as in RFC 8949 §6.2", () => {
+			expect(
+				CBOR.fromJSON(
+					'{"a": [1, -1.5, 1e2, 18446744073709551615, -18446744073709551617], "b": "\\u00fc", "c": null}',
+				),
+			).toEqual({
+				a: [1, -1.5, 100, 2n ** 64n - 1n, -(2n ** 64n) - 1n],
+				b: "ü",
+				c: null,
+			});
+			expect(CBOR.fromJSON('{"a": 1}', { mapType: "map" })).toEqual(
+				new Map([["a", 1]]),
+			);
+			expect(() => CBOR.fromJSON("h'01'")).toThrow(SyntaxError);
+			expect(() => CBOR.fromJSON("[1,]")).toThrow(SyntaxError);
+		});
+
+		test("should round-trip JSON-compatible values", () => {
+			fc.assert(
+				fc.property(fc.jsonValue(), (value) => {
+					// Integers beyond 64 bits come back as exact bignums
+					const exceeds64Bits = (item: unknown): boolean =>
+						typeof item === "number"
+							? Number.isInteger(item) &&
+								Math.abs(item) >= 2 ** 64 &&
+								Math.abs(item) < 1e21
+							: typeof item === "object" &&
+								item !== null &&
+								Object.values(item).some(exceeds64Bits);
+					fc.pre(!exceeds64Bits(value));
+					const json = JSON.stringify(value);
+					expect(CBOR.toJSON(CBOR.fromJSON(json))).toBe(json);
+				}),
+			);
+		});
+	});
+
+	describe("custom encoding", () => {
+		class Measurement {
+			constructor(
+				readonly unit: string,
+				readonly value: number,
+			) {}
+
+			[CBOR.encodeSymbol]() {
+				return new CBORTag(40000, [this.unit, this.value]);
+			}
+		}
+
+		test("should encode objects through CBOR.encodeSymbol", () => {
+			const encoded = CBOR.encode({ m: new Measurement("mV", 12) });
+			expect(CBOR.toDiagnostic(encoded)).toBe('{"m": 40000(["mV", 12])}');
+		});
+
+		test("should encode objects through toCBOR", () => {
+			const credential = {
+				id: "abc",
+				secret: "hidden",
+				toCBOR() {
+					return { id: this.id };
+				},
+			};
+			expect(CBOR.toDiagnostic(CBOR.encode([credential]))).toBe(
+				'[{"id": "abc"}]',
+			);
+		});
+
+		test("should apply hooks returned by hooks and stop at the object itself", () => {
+			const inner = { toCBOR: () => 1 };
+			expect(CBOR.decode(CBOR.encode({ toCBOR: () => inner }))).toBe(1);
+			const self = {
+				a: 1,
+				toCBOR() {
+					return this;
+				},
+			};
+			// The method itself is not encodable, so leave it off the object
+			Object.defineProperty(self, "toCBOR", { enumerable: false });
+			expect(CBOR.decode(CBOR.encode(self))).toEqual({ a: 1 });
+			const endless = { toCBOR: (): unknown => ({ toCBOR: endless.toCBOR }) };
+			expect(() => CBOR.encode(endless, { maxDepth: 8 })).toThrow(
+				"Encoding hooks nest deeper than maxDepth (8)",
+			);
+		});
+
+		test("should call the replacer like JSON.stringify", () => {
+			const calls: [unknown, unknown, unknown][] = [];
+			const value = { a: [1, 2], b: new Map([[3, "x"]]) };
+			const encoded = CBOR.encode(value, {
+				replacer(key, item) {
+					calls.push([this, key, item]);
+					return typeof item === "number" ? item * 10 : item;
+				},
+			});
+			expect(CBOR.decode(encoded, { mapType: "map" })).toEqual(
+				new Map<CBORValue, CBORValue>([
+					["a", [10, 20]],
+					["b", new Map([[3, "x"]])],
+				]),
+			);
+			expect(calls).toEqual([
+				[{ "": value }, "", value],
+				[value, "a", value.a],
+				[value.a, 0, 1],
+				[value.a, 1, 2],
+				[value, "b", value.b],
+				[value.b, 3, "x"],
+			]);
+		});
+
+		test("should pass hook results to the replacer", () => {
+			const encoded = CBOR.encode([new Measurement("mV", 12)], {
+				replacer: (_key, item) =>
+					item instanceof CBORTag ? `${item.tag}` : item,
+			});
+			expect(CBOR.decode(encoded)).toEqual(["40000"]);
+		});
+
+		test("should call the reviver innermost values first", () => {
+			const keys: unknown[] = [];
+			const decoded = CBOR.decode(
+				CBOR.encode({ a: [1, 2], b: new CBORTag(40000, ["mV", 12]) }),
+				{
+					reviver(key, item) {
+						keys.push(key);
+						if (item instanceof CBORTag && item.tag === 40000) {
+							const [unit, value] = item.value as [string, number];
+							return new Measurement(unit, value);
+						}
+						return item;
+					},
+				},
+			);
+			expect(keys).toEqual([0, 1, "a", 0, 1, "b", ""]);
+			expect(decoded as unknown).toEqual({
+				a: [1, 2],
+				b: new Measurement("mV", 12),
+			});
+		});
+
+		test("should revive map values with their keys and holder", () => {
+			const holders: unknown[] = [];
+			const decoded = CBOR.decode(CBOR.encode(new Map([[1, "x"]])), {
+				mapType: "map",
+				reviver(key, item) {
+					holders.push(this);
+					return key === 1 ? `${item}!` : item;
+				},
+			});
+			expect(decoded).toEqual(new Map([[1, "x!"]]));
+			expect(holders[0]).toBe(decoded);
+			expect(holders[1]).toEqual({ "": decoded });
+		});
+
+		test("should revive each item of a sequence", () => {
+			const items = CBOR.decodeSequence(CBOR.encodeSequence([1, 2]), {
+				reviver: (_key, item) => (typeof item === "number" ? -item : item),
+			});
+			expect(items).toEqual([-1, -2]);
+		});
+	});
+
+	describe("path queries", () => {
+		const attestation = CBOR.encode({
+			fmt: "packed",
+			attStmt: { alg: -7, sig: new Uint8Array([1, 2, 3]) },
+			authData: new Uint8Array([4, 5]),
+		});
+
+		test("should return the addressed item and its byte range", () => {
+			const item = CBOR.get(attestation, ["authData"]);
+			expect(item?.value).toEqual(new Uint8Array([4, 5]).buffer);
+			expect(
+				toHex(
+					attestation.slice(
+						item?.offset,
+						(item?.offset ?? 0) + (item?.length ?? 0),
+					),
+				),
+			).toBe("420405");
+			expect(CBOR.get(attestation, ["attStmt", "alg"])?.value).toBe(-7);
+			expect(CBOR.get(attestation, [])?.length).toBe(attestation.byteLength);
+		});
+
+		test("should return undefined for missing paths", () => {
+			expect(CBOR.get(attestation, ["x5c"])).toBeUndefined();
+			expect(CBOR.get(attestation, ["fmt", 0])).toBeUndefined();
+			expect(CBOR.get(CBOR.encode([1, 2]), [2])).toBeUndefined();
+			expect(CBOR.get(CBOR.encode([1, 2]), ["0"])).toBeUndefined();
+		});
+
+		test("should match integer keys by number, bigint or digits", () => {
+			const key = CBOR.encode(
+				new Map<CBORValue, CBORValue>([
+					[1, 2],
+					[-2, new Uint8Array([9])],
+					["3", "text"],
+				]),
+			);
+			expect(CBOR.get(key, [-2])?.value).toEqual(new Uint8Array([9]).buffer);
+			expect(CBOR.get(key, ["-2"])?.offset).toBe(4);
+			expect(CBOR.get(key, [1n])?.value).toBe(2);
+			expect(CBOR.get(key, [3])?.value).toBe("text");
+		});
+
+		test("should step through tags and indefinite-length items", () => {
+			const sign1 = CBOR.encode(
+				new CBORTag(18, [new Uint8Array(1), {}, null, new Uint8Array(2)]),
+			);
+			expect(CBOR.get(sign1, [3])).toEqual({
+				value: new Uint8Array(2).buffer,
+				offset: 6,
+				length: 3,
+			});
+			const indefinite = CBOR.fromDiagnostic(
+				`[_ (_ 'a', 'b'), {_ "a": [_ 2, 3]}]`,
+			);
+			expect(CBOR.get(indefinite, [1, "a", 1])).toEqual({
+				value: 3,
+				offset: 12,
+				length: 1,
+			});
+			expect(CBOR.get(indefinite, [2])).toBeUndefined();
+		});
+
+		test("should reject malformed items on the way", () => {
+			expect(() => CBOR.get(fromHex("831c0102"), [2])).toThrow(
+				"Reserved additional info 28 is not well-formed at offset 1",
+			);
+			expect(() => CBOR.get(fromHex("a1616182"), ["a", 1])).toThrow(
+				"Buffer too short for CBOR data at offset 4 (path /a)",
+			);
+		});
+
+		test("should agree with decode", () => {
+			fc.assert(
+				fc.property(
+					fc.array(fc.array(fc.oneof(fc.integer(), fc.string())), {
+						minLength: 1,
+					}),
+					fc.nat(),
+					fc.nat(),
+					(value, i, j) => {
+						const outer = i % value.length;
+						const path = value[outer].length
+							? [outer, j % value[outer].length]
+							: [outer];
+						const encoded = CBOR.encode(value);
+						const item = CBOR.get(encoded, path);
+						const expected = path.reduce<unknown>(
+							(parent, index) => (parent as unknown[])[index],
+							value,
+						);
+						expect(item?.value as unknown).toEqual(expected);
+						expect(
+							encoded.slice(
+								item?.offset,
+								(item?.offset ?? 0) + (item?.length ?? 0),
+							),
+						).toEqual(CBOR.encode(expected));
+					},
+				),
+			);
+		});
+	});
+
+	describe("limits", () => {
+		test("should reject nesting deeper than maxDepth", () => {
+			// [[[1]]]
+			const buffer = fromHex("81818101");
+			expect(CBOR.decode(buffer, { maxDepth: 3 })).toEqual([[[1]]]);
+			expect(() => CBOR.decode(buffer, { maxDepth: 2 })).toThrow(
+				"Nesting depth exceeds maxDepth (2) at offset 2 (path /0/0)",
+			);
+			expect(() => CBOR.encode([[[1]]], { maxDepth: 2 })).toThrow(
+				"Nesting depth exceeds maxDepth (2) (path /0/0)",
+			);
+		});
+
+		test("should count tags towards the nesting depth", () => {
+			expect(() => CBOR.decode(fromHex("c1c101"), { maxDepth: 1 })).toThrow(
+				CBORDecodeError,
+			);
+		});
+
+		test("should reject containers larger than maxContainerItems", () => {
+			expect(() =>
+				CBOR.decode(fromHex("83010203"), { maxContainerItems: 2 }),
+			).toThrow("Array length 3 exceeds maxContainerItems (2)");
+			expect(() =>
+				CBOR.decode(fromHex("9f010203ff"), { maxContainerItems: 2 }),
+			).toThrow("Array length exceeds maxContainerItems (2)");
+			expect(() =>
+				CBOR.encode({ a: 1, b: 2, c: 3 }, { maxContainerItems: 2 }),
+			).toThrow("Map size 3 exceeds maxContainerItems (2)");
+		});
+
+		test("should reject documents with more than maxTotalItems", () => {
+			// [1, 2] is three data items
+			expect(CBOR.decode(fromHex("820102"), { maxTotalItems: 3 })).toEqual([
+				1, 2,
+			]);
+			expect(() =>
+				CBOR.decode(fromHex("820102"), { maxTotalItems: 2 }),
+			).toThrow("Number of data items exceeds maxTotalItems (2)");
+			expect(() => CBOR.encode({ a: [1] }, { maxTotalItems: 3 })).toThrow(
+				CBOREncodeError,
+			);
+		});
+
+		test("should reject strings longer than maxStringLength", () => {
+			expect(() =>
+				CBOR.decode(fromHex("63616263"), { maxStringLength: 2 }),
+			).toThrow("String length 3 exceeds maxStringLength (2)");
+			// (_ h'01', h'0203')
+			expect(() =>
+				CBOR.decode(fromHex("5f4101420203ff"), {
+					maxStringLength: 2,
+				}),
+			).toThrow("String length 3 exceeds maxStringLength (2)");
+			expect(() => CBOR.encode("abc", { maxStringLength: 2 })).toThrow(
+				"String length 3 exceeds maxStringLength (2)",
+			);
+		});
+
+		test("should reject inputs and outputs larger than maxBytes", () => {
+			expect(() => CBOR.decode(fromHex("820102"), { maxBytes: 2 })).toThrow(
+				"Buffer of 3 bytes exceeds maxBytes (2)",
+			);
+			expect(() => CBOR.encode([1, 2], { maxBytes: 2 })).toThrow(
+				"Encoded data exceeds maxBytes (2)",
+			);
+		});
+
+		test("should allow raising the default container limit", () => {
+			const array = Array.from({ length: 10001 }, (_, i) => i);
+			expect(() => CBOR.encode(array)).toThrow(CBOREncodeError);
+			const encoded = CBOR.encode(array, { maxContainerItems: 20000 });
+			expect(() => CBOR.decode(encoded)).toThrow(CBORDecodeError);
+			expect(CBOR.decode(encoded, { maxContainerItems: 20000 })).toEqual(array);
+		});
+	});
+
 	describe("Property-based tests", () => {
 		test("should handle any valid integer", () => {
 			fc.assert(
@@ -319,3 +2338,29 @@ describe("CBOR", () => {
 		});
 	});
 });
+
+function fromHex(hex: string): ArrayBuffer {
+	const bytes = new Uint8Array(hex.length / 2);
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+	}
+	return bytes.buffer;
+}
+
+function concatenate(chunks: Uint8Array[]): ArrayBuffer {
+	const bytes = new Uint8Array(
+		chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0),
+	);
+	let offset = 0;
+	for (const chunk of chunks) {
+		bytes.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return bytes.buffer;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+	return Array.from(new Uint8Array(buffer), (byte) =>
+		byte.toString(16).padStart(2, "0"),
+	).join("");
+}
@@ -1,48 +1,533 @@
-import { concatenateBuffers } from "./utils";
+import {
+	MAX_UINT64,
+	base64Url,
+	bignumBytes,
+	concatenateBuffers,
+	escapePathSegment,
+	fromHexString,
+	isScalarKey,
+	mapKeySegment,
+	objectKey,
+	toBytes,
+	toFloat16,
+	toHexString,
+} from "./utils";
 
 export type CBORValue =
 	| number
+	| bigint
 	| ArrayBuffer
+	| ArrayBufferView
 	| string
 	| CBORValue[]
 	| { [key: string | number]: CBORValue }
-	| { tag: number; value: CBORValue }
+	| Map<CBORValue, CBORValue>
+	| Set<CBORValue>
+	| CBORTag
+	| CBOREncoded
+	| Date
+	| URL
 	| boolean
 	| null
 	| undefined;
 
+/**
+ * Objects with a method under this symbol are encoded as the value it
+ * returns. A `toCBOR()` method works the same way.
+ */
+const encodeSymbol: unique symbol = Symbol.for("cbor-cose-ts.encode");
+
 /**
  * RFC 8949: Concise Binary Object Representation (CBOR)
  */
 export const CBOR = {
+	encodeSymbol,
 	encode,
+	encodeInto,
 	decode,
 	decodeWithOffset,
 	decodeMapToMap,
+	encodeSequence,
+	decodeSequence,
+	iterateSequence,
+	decodeStream,
+	get,
+	toDiagnostic,
+	fromDiagnostic,
+	annotate,
+	toJSON,
+	fromJSON,
+	registerTag,
+	unregisterTag,
 } as const;
 
-const MAX_BUFFER_SIZE = 16 * 1024 * 1024;
+/**
+ * Deterministic encoding variants:
+ * - `"core"`: RFC 8949 §4.2.1, map keys sorted bytewise by their encoding
+ * - `"length-first"`: RFC 8949 §4.2.3 (CTAP2 canonical), shorter keys first
+ */
+export type CBORDeterministicMode = "core" | "length-first";
 
-function decode(buffer: ArrayBuffer): CBORValue {
-	if (buffer.byteLength > MAX_BUFFER_SIZE) {
-		throw new Error(
-			`Buffer exceeds maximum size of ${MAX_BUFFER_SIZE} bytes`,
-		);
+/**
+ * Resource limits shared by the encoder and decoder. Exceeding any of them
+ * raises a `LIMIT_EXCEEDED` error.
+ */
+export interface CBOROptions {
+	/** Maximum size of the encoded data in bytes. Defaults to 16 MiB. */
+	maxBytes?: number;
+	/** Maximum number of elements in an array or pairs in a map. Defaults to 10,000. */
+	maxContainerItems?: number;
+	/** Maximum number of data items in the whole document. Unlimited by default. */
+	maxTotalItems?: number;
+	/** Maximum nesting depth of arrays, maps and tags. Defaults to 256. */
+	maxDepth?: number;
+	/** Maximum length in bytes of a byte or text string. Unlimited by default. */
+	maxStringLength?: number;
+}
+
+/**
+ * Converts between a tag (RFC 8949 §3.4) and an application type. `decode`
+ * turns the content of a decoded tag into an application value; `match`
+ * picks the objects to encode under the tag and `encode` produces the tag
+ * content for them.
+ */
+export interface CBORTagHandler<T = unknown> {
+	decode?(value: CBORValue): T;
+	match?(value: unknown): value is T;
+	encode?(value: T): unknown;
+}
+
+/**
+ * Tag handlers used for a single call, on top of those passed to
+ * `CBOR.registerTag`.
+ */
+export interface CBORTagOptions {
+	/**
+	 * Handlers by tag number. They take precedence over registered handlers;
+	 * `null` disables the registered handler for that tag.
+	 */
+	tags?: { [tag: number]: CBORTagHandler | null };
+	/**
+	 * Set to `false` to disable the built-in handlers for tags 0 and 1
+	 * (`Date`), 24 (`CBOREncoded`), 32 (`URL`), 258 (`Set`) and 55799
+	 * (self-described CBOR).
+	 */
+	builtinTags?: boolean;
+}
+
+export interface CBOREncodeOptions extends CBOROptions, CBORTagOptions {
+	/**
+	 * Write arrays and maps as indefinite-length items (RFC 8949 §3.2.2),
+	 * terminated by a break code, instead of prefixing them with their size.
+	 */
+	indefiniteLength?: boolean;
+	/**
+	 * Produce byte-for-byte reproducible output. Map keys are ordered by their
+	 * encoded bytes and indefinite-length items are rejected.
+	 */
+	deterministic?: CBORDeterministicMode;
+	/**
+	 * Byte order of typed arrays other than `Uint8Array`, which are encoded
+	 * with the RFC 8746 typed array tags. Defaults to `"little"`.
+	 */
+	typedArrayEndianness?: "little" | "big";
+	/**
+	 * Called like the `replacer` of `JSON.stringify` for the top-level value
+	 * (with key `""`), each array element (with its index) and each map value
+	 * (with its key); the value returned is encoded instead. `this` is the
+	 * containing array, map or object. Unlike in JSON, `undefined` is encoded
+	 * rather than omitted.
+	 */
+	replacer?: (this: unknown, key: CBORValue, value: unknown) => unknown;
+}
+
+export interface CBORStreamEncoderOptions extends CBOREncodeOptions {
+	/** Number of bytes to buffer before writing to the sink. Defaults to 64 KiB. */
+	chunkSize?: number;
+}
+
+export interface CBORDecodeOptions extends CBOROptions, CBORTagOptions {
+	/**
+	 * Decode every integer (including bignums) as a `bigint`. By default only
+	 * integers outside the safe `number` range are returned as `bigint`.
+	 */
+	useBigInt?: boolean;
+	/**
+	 * Only accept input that follows the given deterministic encoding rules:
+	 * shortest-form heads and floats, sorted map keys, no indefinite lengths.
+	 */
+	deterministic?: CBORDeterministicMode;
+	/**
+	 * Reject input that is well-formed but unsafe to process (RFC 8949 §5.6):
+	 * duplicate map keys and, for `decode`, bytes after the top-level item.
+	 */
+	strict?: boolean;
+	/**
+	 * How to represent CBOR maps. `"object"` (the default) produces plain
+	 * objects and only accepts string and number keys; `"map"` produces `Map`s
+	 * whose keys keep their CBOR type, so `1` and `"1"` stay distinct and keys
+	 * may be byte strings, arrays or any other data item.
+	 */
+	mapType?: "object" | "map";
+	/**
+	 * How to represent byte strings: as `ArrayBuffer`s (the default), as
+	 * `Uint8Array`s, or as `Uint8Array` views into the input (`"subarray"`).
+	 * Views avoid copying but keep the whole input alive and see any later
+	 * changes to it. Indefinite-length byte strings are always copied.
+	 */
+	byteStringType?: "arraybuffer" | "uint8array" | "subarray";
+	/**
+	 * Called like the `reviver` of `JSON.parse`, innermost values first, for
+	 * each array element (with its index), each map value (with its key) and
+	 * the top-level value (with key `""`); its result replaces the value.
+	 * `this` is the array, map or object being built. Unlike in JSON,
+	 * returning `undefined` keeps the entry.
+	 */
+	reviver?: (this: unknown, key: CBORValue, value: CBORValue) => unknown;
+}
+
+export interface CBORDiagnosticOptions extends CBOROptions {
+	/**
+	 * Show how items are encoded (RFC 8949 §8.1): `_0` to `_3` after items
+	 * whose argument takes 1 to 8 bytes, and `_` for indefinite lengths, whose
+	 * string chunks are then listed as `(_ h'01', h'02')`.
+	 */
+	encodingIndicators?: boolean;
+}
+
+export interface CBORToJSONOptions extends Pick<CBOROptions, "maxDepth"> {
+	/**
+	 * How to render map keys that are not strings. `"string"` (the default)
+	 * converts numbers, booleans and `null` to their text, byte strings to
+	 * base64url and other keys to diagnostic notation; keys that collide
+	 * after conversion are rejected. `"error"` rejects non-string keys.
+	 */
+	mapKeys?: "string" | "error";
+	/**
+	 * How to render tags that JSON has no equivalent for. `"content"` (the
+	 * default) keeps only the tag content as RFC 8949 §6.1 suggests,
+	 * `"object"` renders `{"tag": number, "value": content}` and `"error"`
+	 * rejects them.
+	 */
+	unknownTags?: "content" | "object" | "error";
+}
+
+/**
+ * A decoded data item with its position in the input.
+ */
+export interface CBORItem {
+	value: CBORValue;
+	/** Byte offset of the item in the buffer */
+	offset: number;
+	/** Length of the encoded item in bytes */
+	length: number;
+}
+
+/**
+ * An item of a CBOR sequence (RFC 8742) with its position in the input.
+ */
+export type CBORSequenceItem = CBORItem;
+
+/**
+ * A step of a `CBOR.get` path: an array index or a map key.
+ */
+export type CBORPathSegment = string | number | bigint;
+
+export type CBORDecodeErrorCode =
+	| "UNEXPECTED_END"
+	| "RESERVED_ADDITIONAL_INFO"
+	| "INVALID_ADDITIONAL_INFO"
+	| "INVALID_SIMPLE_VALUE"
+	| "UNSUPPORTED_SIMPLE_VALUE"
+	| "UNEXPECTED_BREAK"
+	| "INVALID_CHUNK"
+	| "INVALID_UTF8"
+	| "INVALID_BIGNUM"
+	| "UNSUPPORTED_MAP_KEY"
+	| "DUPLICATE_MAP_KEY"
+	| "TRAILING_BYTES"
+	| "NON_DETERMINISTIC"
+	| "LIMIT_EXCEEDED"
+	| "UNEXPECTED_TYPE"
+	| "INVALID_TAG_CONTENT";
+
+export type CBOREncodeErrorCode =
+	| "UNSUPPORTED_TYPE"
+	| "INVALID_TAG"
+	| "INVALID_INTEGER"
+	| "INVALID_OPTIONS"
+	| "LIMIT_EXCEEDED"
+	| "INVALID_TAG_CONTENT"
+	| "INVALID_STATE"
+	| "BUFFER_TOO_SMALL"
+	| "UNSUPPORTED_MAP_KEY"
+	| "DUPLICATE_MAP_KEY";
+
+/**
+ * Thrown when input is not well-formed, not valid, or rejected by a decoding
+ * option. `offset` is the byte position at which the problem was detected and
+ * `path` locates the failing item in the decoded structure, e.g. `/3/-2`.
+ */
+export class CBORDecodeError extends Error {
+	readonly code: CBORDecodeErrorCode;
+	readonly reason: string;
+	readonly offset: number;
+	readonly path: string;
+
+	constructor(
+		code: CBORDecodeErrorCode,
+		reason: string,
+		offset: number,
+		path = "",
+	) {
+		super(`${reason} at offset ${offset}${path ? ` (path ${path})` : ""}`);
+		this.name = "CBORDecodeError";
+		this.code = code;
+		this.reason = reason;
+		this.offset = offset;
+		this.path = path;
 	}
-	const [value] = decodeFirstItem(buffer, 0);
-	return value;
 }
 
-function encode(value: CBORValue): ArrayBuffer {
-	const buffers: Uint8Array[] = [];
-	encodeValue(value, buffers);
-	const totalLength = buffers.reduce((sum, buf) => sum + buf.byteLength, 0);
-	if (totalLength > MAX_BUFFER_SIZE) {
-		throw new Error(
-			`Encoded data exceeds maximum size of ${MAX_BUFFER_SIZE} bytes`,
+/**
+ * Thrown when a value cannot be represented in CBOR. `path` locates the
+ * offending value in the input, e.g. `/items/0`.
+ */
+export class CBOREncodeError extends Error {
+	readonly code: CBOREncodeErrorCode;
+	readonly reason: string;
+	readonly path: string;
+
+	constructor(code: CBOREncodeErrorCode, reason: string, path = "") {
+		super(path ? `${reason} (path ${path})` : reason);
+		this.name = "CBOREncodeError";
+		this.code = code;
+		this.reason = reason;
+		this.path = path;
+	}
+}
+
+/**
+ * A tagged data item (RFC 8949 §3.4): a tag number and the value it applies
+ * to. Only instances of this class are encoded as tags; plain objects are
+ * always encoded as maps.
+ */
+export class CBORTag {
+	readonly tag: number;
+	readonly value: CBORValue;
+
+	constructor(tag: number, value: CBORValue) {
+		this.tag = tag;
+		this.value = value;
+	}
+}
+
+/**
+ * An encoded CBOR data item (RFC 8949 §3.4.5.1): the exact bytes of an item,
+ * decoded only when `value` is first read. Tag 24 decodes to this class, and
+ * instances are encoded as tag 24 around their stored bytes, unchanged, so
+ * that signed content survives a round trip byte for byte.
+ */
+export class CBOREncoded<T = CBORValue> {
+	readonly bytes: ArrayBuffer;
+	private decoded?: { value: T };
+
+	constructor(bytes: ArrayBuffer | ArrayBufferView) {
+		this.bytes =
+			bytes instanceof ArrayBuffer ? bytes : toBytes(bytes).slice().buffer;
+	}
+
+	/** Encodes `value` and wraps the result. */
+	static from<T>(value: T, options?: CBOREncodeOptions): CBOREncoded<T> {
+		const encoded = new CBOREncoded<T>(encode(value, options));
+		encoded.decoded = { value };
+		return encoded;
+	}
+
+	/** The decoded item; throws `CBORDecodeError` if the bytes are invalid. */
+	get value(): T {
+		this.decoded ??= { value: decode(this.bytes) as T };
+		return this.decoded.value;
+	}
+}
+
+const DEFAULT_LIMITS: Required<CBOROptions> = {
+	maxBytes: 16 * 1024 * 1024,
+	maxContainerItems: 10000,
+	maxTotalItems: Number.POSITIVE_INFINITY,
+	maxDepth: 256,
+	maxStringLength: Number.POSITIVE_INFINITY,
+};
+
+// Additional info 31 marks an indefinite-length item; 0xff is the "break" stop code.
+const INDEFINITE_LENGTH = 31;
+const BREAK = 0xff;
+
+// Smallest argument that requires additional info 24, 25, 26 and 27 respectively
+const SHORTEST_ARGUMENT_MINIMUM = [24n, 0x100n, 0x10000n, 0x100000000n];
+
+type TypedArray = Exclude<ArrayBufferView, DataView>;
+interface TypedArrayConstructor {
+	new (buffer: ArrayBuffer): TypedArray;
+	readonly BYTES_PER_ELEMENT: number;
+}
+
+/**
+ * RFC 8746 typed arrays by the tag of their big-endian form. The
+ * little-endian form of multi-byte types is tagged 4 higher.
+ */
+const TYPED_ARRAY_TAGS: [number, TypedArrayConstructor][] = [
+	[64, Uint8Array],
+	[65, Uint16Array],
+	[66, Uint32Array],
+	[67, BigUint64Array],
+	[68, Uint8ClampedArray],
+	[72, Int8Array],
+	[73, Int16Array],
+	[74, Int32Array],
+	[75, BigInt64Array],
+	...(typeof Float16Array === "undefined"
+		? []
+		: [[80, Float16Array] as [number, TypedArrayConstructor]]),
+	[81, Float32Array],
+	[82, Float64Array],
+];
+
+const TYPED_ARRAYS_BY_TAG = new Map<
+	number,
+	{ type: TypedArrayConstructor; littleEndian: boolean }
+>(
+	TYPED_ARRAY_TAGS.flatMap(([tag, type]) =>
+		type.BYTES_PER_ELEMENT === 1
+			? [[tag, { type, littleEndian: false }]]
+			: [
+					[tag, { type, littleEndian: false }],
+					[tag + 4, { type, littleEndian: true }],
+				],
+	),
+);
+
+const LITTLE_ENDIAN_PLATFORM =
+	new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+const BUILTIN_TAGS = new Map<number, CBORTagHandler>([
+	// Standard date/time string
+	[
+		0,
+		{
+			decode(value) {
+				const date = new Date(typeof value === "string" ? value : Number.NaN);
+				if (Number.isNaN(date.getTime())) {
+					throw new TypeError("Expected an RFC 3339 date/time string");
+				}
+				return date;
+			},
+		},
+	],
+	// Epoch-based date/time
+	[
+		1,
+		{
+			decode(value) {
+				if (typeof value !== "number" && typeof value !== "bigint") {
+					throw new TypeError("Expected a numeric epoch time");
+				}
+				return new Date(Number(value) * 1000);
+			},
+			match: (value): value is Date => value instanceof Date,
+			encode(value: Date) {
+				const time = value.getTime();
+				if (Number.isNaN(time)) throw new TypeError("Invalid Date");
+				return time / 1000;
+			},
+		},
+	],
+	// URI
+	[
+		32,
+		{
+			decode(value) {
+				if (typeof value !== "string") {
+					throw new TypeError("Expected a URI string");
+				}
+				return new URL(value);
+			},
+			match: (value): value is URL => value instanceof URL,
+			encode: (value: URL) => value.href,
+		},
+	],
+	// Set of unique items
+	[
+		258,
+		{
+			decode(value) {
+				if (!Array.isArray(value)) throw new TypeError("Expected an array");
+				return new Set(value);
+			},
+			match: (value): value is Set<unknown> => value instanceof Set,
+			encode: (value: Set<unknown>) => [...value],
+		},
+	],
+	// Encoded CBOR data item
+	[
+		24,
+		{
+			decode(value) {
+				if (!(value instanceof ArrayBuffer || ArrayBuffer.isView(value))) {
+					throw new TypeError("Expected a byte string");
+				}
+				return new CBOREncoded(value);
+			},
+		},
+	],
+	// Self-described CBOR
+	[55799, { decode: (value) => value }],
+]);
+
+const registeredTags = new Map(BUILTIN_TAGS);
+
+function decode(
+	buffer: ArrayBuffer | ArrayBufferView,
+	options: CBORDecodeOptions = {},
+): CBORValue {
+	const bytes = toBytes(buffer);
+	const context = createDecodeContext(options, bytes.byteLength);
+	const [value, offset] = decodeTopLevelItem(bytes, 0, context);
+	if (options.strict && offset !== bytes.byteLength) {
+		throw new CBORDecodeError(
+			"TRAILING_BYTES",
+			`Strict mode: ${bytes.byteLength - offset} trailing bytes after top-level item`,
+			offset,
 		);
 	}
-	return concatenateBuffers(buffers);
+	return value;
+}
+
+/**
+ * Encodes a value as CBOR. Besides `CBORValue`s, this accepts any object
+ * matched by a registered or per-call tag handler.
+ */
+function encode(value: unknown, options: CBOREncodeOptions = {}): ArrayBuffer {
+	const context = createEncodeContext(options);
+	const output = new EncodeBuffer(context.maxBytes);
+	encodeTopLevelValue(value, output, context);
+	return output.toArrayBuffer();
+}
+
+/**
+ * Encodes a value into `target` without allocating an output buffer and
+ * returns the number of bytes written. Throws a `BUFFER_TOO_SMALL` error if
+ * the encoding does not fit.
+ */
+function encodeInto(
+	value: unknown,
+	target: Uint8Array,
+	options: CBOREncodeOptions = {},
+): number {
+	const context = createEncodeContext(options);
+	const output = new EncodeBuffer(context.maxBytes, target);
+	encodeTopLevelValue(value, output, context);
+	return output.length;
 }
 
 /**
@@ -51,18 +536,17 @@ function encode(value: CBORValue): ArrayBuffer {
  *
  * @param buffer - The buffer to decode.
  * @param startOffset - The offset to start decoding from.
+ * @param options - Decoding options.
  * @returns The decoded value and the number of bytes consumed.
  */
 function decodeWithOffset(
-	buffer: ArrayBuffer,
+	buffer: ArrayBuffer | ArrayBufferView,
 	startOffset = 0,
+	options: CBORDecodeOptions = {},
 ): [CBORValue, number] {
-	if (buffer.byteLength > MAX_BUFFER_SIZE) {
-		throw new Error(
-			`Buffer exceeds maximum size of ${MAX_BUFFER_SIZE} bytes`,
-		);
-	}
-	const [value, newOffset] = decodeFirstItem(buffer, startOffset);
+	const bytes = toBytes(buffer);
+	const context = createDecodeContext(options, bytes.byteLength);
+	const [value, newOffset] = decodeTopLevelItem(bytes, startOffset, context);
 	return [value, newOffset - startOffset];
 }
 
@@ -74,77 +558,705 @@ function decodeWithOffset(
  * @param startOffset - The offset to start decoding from.
  * @param keyValidator - The validator for the keys.
  * @param valueValidator - The validator for the values.
+ * @param options - Decoding options.
  * @returns The decoded map.
  */
 function decodeMapToMap<K extends string | number, V extends CBORValue>(
-	buffer: ArrayBuffer,
+	buffer: ArrayBuffer | ArrayBufferView,
 	startOffset = 0,
 	keyValidator: (key: string | number) => key is K = (key): key is K => true,
 	valueValidator: (value: CBORValue) => value is V = (value): value is V =>
 		true,
+	options: CBORDecodeOptions = {},
 ): [Map<K, V>, number] {
-	const [obj, newOffset] = decodeFirstItem(buffer, startOffset);
-	if (
-		typeof obj !== "object" ||
-		obj === null ||
-		"tag" in obj ||
-		Array.isArray(obj)
-	) {
-		throw new Error("Expected CBOR map");
+	const bytes = toBytes(buffer);
+	const context = createDecodeContext(
+		{ ...options, mapType: "map" },
+		bytes.byteLength,
+	);
+	const [decoded, newOffset] = decodeFirstItem(bytes, startOffset, context);
+	if (!(decoded instanceof Map)) {
+		throw new CBORDecodeError(
+			"UNEXPECTED_TYPE",
+			"Expected CBOR map",
+			startOffset,
+		);
 	}
 	const map = new Map<K, V>();
-	for (const [key, value] of Object.entries(obj)) {
-		const parsedKey =
-			Number(key) === Number.parseInt(key, 10) ? Number(key) : key;
-		if (!keyValidator(parsedKey)) {
-			throw new Error(`Invalid map key: ${parsedKey}`);
+	for (const [key, value] of decoded) {
+		if (
+			(typeof key !== "string" && typeof key !== "number") ||
+			!keyValidator(key)
+		) {
+			throw new CBORDecodeError(
+				"UNEXPECTED_TYPE",
+				`Invalid map key: ${String(key)}`,
+				startOffset,
+			);
 		}
 		if (!valueValidator(value)) {
-			throw new Error(
-				`Invalid map value for key ${parsedKey}: ${value}`,
+			throw new CBORDecodeError(
+				"UNEXPECTED_TYPE",
+				`Invalid map value for key ${key}: ${value}`,
+				startOffset,
+				`/${escapePathSegment(key)}`,
 			);
 		}
-		map.set(parsedKey as K, value as V);
+		map.set(key, value);
 	}
 	return [map, newOffset - startOffset];
 }
 
+/**
+ * Registers a handler converting between `tag` and an application type for
+ * all subsequent `encode` and `decode` calls, replacing any existing handler
+ * for that tag. Tags 2 and 3 are always decoded as integers.
+ *
+ * @example
+ * CBOR.registerTag(40000, {
+ *   decode: (value) => new Point(...(value as [number, number])),
+ *   match: (value): value is Point => value instanceof Point,
+ *   encode: (point) => [point.x, point.y],
+ * });
+ */
+function registerTag<T>(tag: number, handler: CBORTagHandler<T>): void {
+	if (!Number.isSafeInteger(tag) || tag < 0) {
+		throw new RangeError("Tag must be a non-negative integer");
+	}
+	registeredTags.set(tag, handler);
+}
+
+/**
+ * Removes the handler registered for `tag`, including built-in handlers.
+ * Items with that tag are then decoded as `CBORTag` instances.
+ */
+function unregisterTag(tag: number): void {
+	registeredTags.delete(tag);
+}
+
+/**
+ * Encodes values as a CBOR sequence (RFC 8742): their encodings
+ * concatenated, without an enclosing array. Resource limits other than
+ * `maxBytes` apply to each value separately.
+ */
+function encodeSequence(
+	values: Iterable<unknown>,
+	options: CBOREncodeOptions = {},
+): ArrayBuffer {
+	const context = createEncodeContext(options);
+	const output = new EncodeBuffer(context.maxBytes);
+	for (const value of values) {
+		context.items = 0;
+		encodeTopLevelValue(value, output, context);
+	}
+	return output.toArrayBuffer();
+}
+
+/**
+ * Decodes all items of a CBOR sequence (RFC 8742).
+ */
+function decodeSequence(
+	buffer: ArrayBuffer | ArrayBufferView,
+	options: CBORDecodeOptions = {},
+): CBORValue[] {
+	return Array.from(iterateSequence(buffer, options), (item) => item.value);
+}
+
+/**
+ * Lazily decodes the items of a CBOR sequence (RFC 8742), one per iteration,
+ * with the offset and length of each. Resource limits other than `maxBytes`
+ * apply to each item separately.
+ *
+ * @example
+ * for (const { value, offset } of CBOR.iterateSequence(log)) {
+ *   console.log(offset, value);
+ * }
+ */
+function* iterateSequence(
+	buffer: ArrayBuffer | ArrayBufferView,
+	options: CBORDecodeOptions = {},
+): Generator<CBORSequenceItem, void, undefined> {
+	const bytes = toBytes(buffer);
+	const context = createDecodeContext(options, bytes.byteLength);
+	let offset = 0;
+	while (offset < bytes.byteLength) {
+		context.items = 0;
+		const [value, nextOffset] = decodeTopLevelItem(bytes, offset, context);
+		yield { value, offset, length: nextOffset - offset };
+		offset = nextOffset;
+	}
+}
+
+/**
+ * Decodes the top-level items of a stream as their bytes arrive, for
+ * example a CBOR sequence read from the network. Items may span chunk
+ * boundaries; only the bytes of the item being received are buffered, and
+ * `maxBytes` limits the size of a single item. Offsets are relative to the
+ * start of the stream.
+ *
+ * @example
+ * const response = await fetch(url);
+ * for await (const { value } of CBOR.decodeStream(response.body)) {
+ *   console.log(value);
+ * }
+ */
+async function* decodeStream(
+	source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+	options: CBORDecodeOptions = {},
+): AsyncGenerator<CBORSequenceItem, void, undefined> {
+	const context = createDecodeContext(options);
+	let pending = new Uint8Array(0);
+	let start = 0;
+	let end = 0;
+	// Stream position of `pending[start]`
+	let streamOffset = 0;
+	let state: ScanState = { offset: 0, remaining: [] };
+	for await (const chunk of streamChunks(source)) {
+		if (end + chunk.length > pending.length) {
+			const length = end - start;
+			if (length + chunk.length > pending.length) {
+				const grown = new Uint8Array(
+					Math.max(pending.length * 2, length + chunk.length),
+				);
+				grown.set(pending.subarray(start, end));
+				pending = grown;
+			} else {
+				pending.copyWithin(0, start, end);
+			}
+			start = 0;
+			end = length;
+		}
+		pending.set(chunk, end);
+		end += chunk.length;
+
+		for (;;) {
+			const itemLength = scanItem(pending.subarray(start, end), state, context);
+			if (itemLength === undefined) break;
+			const item = pending.slice(start, start + itemLength);
+			yield decodeStreamItem(item, streamOffset, context);
+			start += itemLength;
+			streamOffset += itemLength;
+			state = { offset: 0, remaining: [] };
+		}
+		if (end - start > context.maxBytes) {
+			throw new CBORDecodeError(
+				"LIMIT_EXCEEDED",
+				`Item exceeds maxBytes (${context.maxBytes})`,
+				streamOffset,
+			);
+		}
+	}
+	if (start < end) {
+		// Decode what is left to report where the truncated item ends
+		decodeStreamItem(pending.slice(start, end), streamOffset, context);
+		throw new CBORDecodeError(
+			"UNEXPECTED_END",
+			"Stream ended in the middle of a CBOR item",
+			streamOffset + end - start,
+		);
+	}
+}
+
+/**
+ * Finds the item at `path` and decodes only that item, skipping over the
+ * others by their heads. Numbers index arrays; map keys match a segment
+ * equal to them, where an integer and a string of its digits count as equal
+ * as they do in decoded objects. Tags along the way are stepped through.
+ * Returns `undefined` if the path does not exist.
+ *
+ * @example
+ * const { value, offset, length } = CBOR.get(attestationObject, ["authData"])!;
+ * CBOR.get(coseKey, [-2])?.value; // the x coordinate
+ */
+function get(
+	buffer: ArrayBuffer | ArrayBufferView,
+	path: readonly CBORPathSegment[],
+	options: CBORDecodeOptions = {},
+): CBORItem | undefined {
+	const bytes = toBytes(buffer);
+	const context = createDecodeContext(options, bytes.byteLength);
+	const dataView = new DataView(
+		bytes.buffer,
+		bytes.byteOffset,
+		bytes.byteLength,
+	);
+	let offset = 0;
+	const traversed: CBORPathSegment[] = [];
+	try {
+		for (const segment of path) {
+			const child = findChild(bytes, dataView, offset, segment, context);
+			if (child === undefined) return undefined;
+			offset = child;
+			traversed.push(segment);
+		}
+		context.items = 0;
+		context.depth = 0;
+		const [value, end] = decodeTopLevelItem(bytes, offset, context);
+		return { value, offset, length: end - offset };
+	} catch (error) {
+		throw traversed.reduceRight(
+			(prefixed, segment) => prefixPath(prefixed, String(segment)),
+			error,
+		);
+	}
+}
+
+/**
+ * Prints CBOR in diagnostic notation (RFC 8949 §8, EDN), e.g.
+ * `18([h'a10126', {}, h'...', h'...'])`. An `ArrayBuffer` or
+ * `ArrayBufferView` is read as encoded CBOR; the items of a CBOR sequence
+ * are separated by commas (RFC 8742 §4.2). Any other value is encoded first.
+ *
+ * @example
+ * CBOR.toDiagnostic(fromHex("9f0118ffff"), { encodingIndicators: true });
+ * // "[_ 1, 255_0]"
+ */
+function toDiagnostic(
+	input: unknown,
+	options: CBORDiagnosticOptions = {},
+): string {
+	const bytes =
+		input instanceof ArrayBuffer || ArrayBuffer.isView(input)
+			? toBytes(input)
+			: new Uint8Array(encode(input, options));
+	const context = createDiagnosticContext(options, bytes.byteLength);
+	const dataView = new DataView(
+		bytes.buffer,
+		bytes.byteOffset,
+		bytes.byteLength,
+	);
+	const items: string[] = [];
+	let offset = 0;
+	while (offset < bytes.byteLength) {
+		context.items = 0;
+		const [item, nextOffset] = diagnoseItem(bytes, dataView, offset, context);
+		items.push(item);
+		offset = nextOffset;
+	}
+	return items.join(", ");
+}
+
+/**
+ * Encodes CBOR written in diagnostic notation, such as the output of
+ * `toDiagnostic`. Encoding indicators are honoured; without them integers,
+ * lengths and floats take their preferred (shortest) form. Besides the
+ * notation of RFC 8949 §8 this accepts `b64'...'` byte strings, `'text'` as
+ * a UTF-8 byte string, `/ comments /` and a comma-separated CBOR sequence.
+ * Throws a `SyntaxError` for malformed text.
+ *
+ * @example
+ * CBOR.fromDiagnostic(`{1: 2, 3: -7} / COSE key /`);
+ */
+function fromDiagnostic(text: string, options: CBOROptions = {}): ArrayBuffer {
+	const limits = resolveLimits(options);
+	const parser: DiagnosticParser = {
+		text,
+		offset: 0,
+		maxBytes: limits.maxBytes,
+		maxDepth: limits.maxDepth,
+		depth: 0,
+	};
+	const output = new EncodeBuffer(limits.maxBytes);
+	skipDiagnosticSpace(parser);
+	if (parser.offset < text.length) {
+		do {
+			parseDiagnosticItem(parser, output);
+			skipDiagnosticSpace(parser);
+		} while (matchDiagnostic(parser, /,/));
+		if (parser.offset < text.length) {
+			throw diagnosticSyntaxError(
+				parser,
+				`Unexpected "${text[parser.offset]}"`,
+			);
+		}
+	}
+	return output.toArrayBuffer();
+}
+
+/**
+ * Produces an annotated hex dump of encoded CBOR for reviewing inputs byte
+ * by byte. Each line shows the offset (hex), the major type and additional
+ * info of item heads, the raw bytes indented by nesting depth, and their
+ * meaning. Heads that are not in preferred (shortest) form are flagged. The
+ * items of a CBOR sequence follow one another; malformed input throws a
+ * `CBORDecodeError`.
+ *
+ * @example
+ * CBOR.annotate(CBOR.encode({ a: 1 }));
+ * // 0000  5  1  a1        # map(1)
+ * // 0001  3  1     61     # text(1)
+ * // 0002              61  # "a"
+ * // 0003  0  1     01     # unsigned(1)
+ */
+function annotate(
+	buffer: ArrayBuffer | ArrayBufferView,
+	options: CBOROptions = {},
+): string {
+	const bytes = toBytes(buffer);
+	const context: AnnotateContext = {
+		...createDiagnosticContext(options, bytes.byteLength),
+		lines: [],
+	};
+	const dataView = new DataView(
+		bytes.buffer,
+		bytes.byteOffset,
+		bytes.byteLength,
+	);
+	let offset = 0;
+	while (offset < bytes.byteLength) {
+		context.items = 0;
+		offset = annotateItem(bytes, dataView, offset, context);
+	}
+	return formatAnnotations(context.lines, bytes.byteLength);
+}
+
+/**
+ * Converts a CBOR value to JSON text following RFC 8949 §6.1. Byte strings
+ * become base64url strings without padding, or base64 or uppercase base16
+ * inside the expected-encoding tags 21 to 23. Bignums become such strings
+ * too, prefixed with `~` when negative, while 64-bit integers are written
+ * exactly. `undefined` and non-finite floats become `null`, dates ISO 8601
+ * strings, and other tags their content (see `unknownTags`).
+ *
+ * @example
+ * CBOR.toJSON({ id: new Uint8Array([1, 2]) }); // '{"id":"AQI"}'
+ */
+function toJSON(value: CBORValue, options: CBORToJSONOptions = {}): string {
+	return writeJSON(value, "base64url", {
+		...options,
+		maxDepth: options.maxDepth ?? DEFAULT_LIMITS.maxDepth,
+		depth: 0,
+	});
+}
+
+/**
+ * Converts JSON text to a CBOR value following RFC 8949 §6.2: numbers
+ * without a fraction or exponent become integers, kept exact as `bigint`s
+ * outside the safe range. Throws a `SyntaxError` for invalid JSON.
+ */
+function fromJSON(text: string, options: CBORDecodeOptions = {}): CBORValue {
+	// Validate as JSON; diagnostic notation is a superset
+	JSON.parse(text);
+	return decode(fromDiagnostic(text, options), options);
+}
+
+/**
+ * Encodes CBOR incrementally to a `WritableStream` or a sink callback,
+ * buffering at most about `chunkSize` bytes. Arrays and maps can be opened
+ * with `startArray`/`startMap`, filled with `write` (alternating keys and
+ * values for maps) and closed with `end`; they are indefinite-length unless
+ * a length is given. Resource limits apply to each written value. Await
+ * each call before making the next one.
+ *
+ * @example
+ * const encoder = new CBORStreamEncoder(file.writable);
+ * await encoder.startArray();
+ * for (const row of rows) await encoder.write(row);
+ * await encoder.end();
+ * await encoder.close();
+ */
+export class CBORStreamEncoder {
+	private readonly context: EncodeContext;
+	private readonly chunkSize: number;
+	private readonly sink: (chunk: Uint8Array) => void | Promise<void>;
+	private readonly writer?: WritableStreamDefaultWriter<Uint8Array>;
+	private readonly containers: StreamContainer[] = [];
+	private readonly output = new EncodeBuffer(Number.POSITIVE_INFINITY);
+
+	constructor(
+		sink:
+			| WritableStream<Uint8Array>
+			| ((chunk: Uint8Array) => void | Promise<void>),
+		options: CBORStreamEncoderOptions = {},
+	) {
+		this.context = createEncodeContext(options);
+		this.chunkSize = options.chunkSize ?? 64 * 1024;
+		if (typeof sink === "function") {
+			this.sink = sink;
+		} else {
+			const writer = sink.getWriter();
+			this.writer = writer;
+			this.sink = (chunk) => writer.write(chunk);
+		}
+	}
+
+	/** Writes a complete data item. */
+	async write(value: unknown): Promise<void> {
+		const container = this.nextItem();
+		// A buffer of its own stops encoding as soon as the value exceeds
+		// maxBytes and leaves nothing behind if it fails
+		const item = new EncodeBuffer(this.context.maxBytes);
+		this.context.items = 0;
+		this.context.depth = 0;
+		encodeTopLevelValue(value, item, this.context);
+		this.output.writeBytes(item.bytes.subarray(0, item.length));
+		if (container) container.count++;
+		await this.flushIfFull();
+	}
+
+	/** Opens an array of `length` items, or an indefinite-length array. */
+	async startArray(length?: number): Promise<void> {
+		this.startContainer(4, length);
+		await this.flushIfFull();
+	}
+
+	/**
+	 * Opens a map of `size` entries, or an indefinite-length map. Not
+	 * available in deterministic mode, where keys must be sorted: write the
+	 * whole map with `write` instead.
+	 */
+	async startMap(size?: number): Promise<void> {
+		if (this.context.deterministic) {
+			throw new CBOREncodeError(
+				"INVALID_OPTIONS",
+				"Streamed maps cannot be sorted in deterministic mode; write the map as one value",
+			);
+		}
+		this.startContainer(5, size);
+		await this.flushIfFull();
+	}
+
+	/** Closes the innermost open array or map. */
+	async end(): Promise<void> {
+		const container = this.containers.at(-1);
+		if (!container) {
+			throw new CBOREncodeError("INVALID_STATE", "No open array or map to end");
+		}
+		const kind = container.majorType === 4 ? "Array" : "Map";
+		if (container.length === Number.POSITIVE_INFINITY) {
+			if (container.majorType === 5 && container.count % 2 !== 0) {
+				throw new CBOREncodeError(
+					"INVALID_STATE",
+					"Map ended after a key without a value",
+				);
+			}
+			this.output.writeByte(BREAK);
+		} else if (container.count !== container.length) {
+			throw new CBOREncodeError(
+				"INVALID_STATE",
+				`${kind} ended after ${container.count} of ${container.length} items`,
+			);
+		}
+		this.containers.pop();
+		await this.flushIfFull();
+	}
+
+	/** Writes all buffered bytes to the sink. */
+	async flush(): Promise<void> {
+		if (this.output.length === 0) return;
+		const chunk = this.output.bytes.slice(0, this.output.length);
+		this.output.length = 0;
+		await this.sink(chunk);
+	}
+
+	/**
+	 * Flushes the remaining bytes and closes the `WritableStream`, if any.
+	 * All arrays and maps must have been ended.
+	 */
+	async close(): Promise<void> {
+		if (this.containers.length > 0) {
+			throw new CBOREncodeError(
+				"INVALID_STATE",
+				`${this.containers.length} array(s) or map(s) still open`,
+			);
+		}
+		await this.flush();
+		await this.writer?.close();
+	}
+
+	private startContainer(majorType: 4 | 5, length?: number): void {
+		if (length === undefined && this.context.deterministic) {
+			throw new CBOREncodeError(
+				"INVALID_OPTIONS",
+				"Indefinite-length items are not allowed in deterministic mode",
+			);
+		}
+		if (length !== undefined && (!Number.isSafeInteger(length) || length < 0)) {
+			throw new CBOREncodeError(
+				"INVALID_INTEGER",
+				"Length must be a non-negative integer",
+			);
+		}
+		if (this.containers.length >= this.context.maxDepth) {
+			throw new CBOREncodeError(
+				"LIMIT_EXCEEDED",
+				`Nesting depth exceeds maxDepth (${this.context.maxDepth})`,
+			);
+		}
+		const container = this.nextItem();
+		if (length === undefined) {
+			this.output.writeByte((majorType << 5) | INDEFINITE_LENGTH);
+		} else {
+			this.output.writeHead(majorType, length);
+		}
+		if (container) container.count++;
+		this.containers.push({
+			majorType,
+			// Map entries are counted as a key item and a value item
+			length:
+				length === undefined
+					? Number.POSITIVE_INFINITY
+					: majorType === 5
+						? length * 2
+						: length,
+			count: 0,
+		});
+	}
+
+	/**
+	 * Returns the container the next item goes into, checking that it still
+	 * has room for it.
+	 */
+	private nextItem(): StreamContainer | undefined {
+		const container = this.containers.at(-1);
+		if (container && container.count === container.length) {
+			throw new CBOREncodeError(
+				"INVALID_STATE",
+				`${container.majorType === 4 ? "Array" : "Map"} already has all of its ${container.length} items`,
+			);
+		}
+		return container;
+	}
+
+	private async flushIfFull(): Promise<void> {
+		if (this.output.length >= this.chunkSize) await this.flush();
+	}
+}
+
 //
 // --- Decoding Helpers ---
-//
+
+type DecodeContext = CBORDecodeOptions &
+	Required<CBOROptions> & {
+		/** Handlers for this call, by tag number */
+		tagHandlers: Map<number, CBORTagHandler>;
+		/** Nesting depth of the item being decoded */
+		depth: number;
+		/** Number of data items decoded so far */
+		items: number;
+	};
+
+function resolveLimits(options: CBOROptions): Required<CBOROptions> {
+	return {
+		maxBytes: options.maxBytes ?? DEFAULT_LIMITS.maxBytes,
+		maxContainerItems:
+			options.maxContainerItems ?? DEFAULT_LIMITS.maxContainerItems,
+		maxTotalItems: options.maxTotalItems ?? DEFAULT_LIMITS.maxTotalItems,
+		maxDepth: options.maxDepth ?? DEFAULT_LIMITS.maxDepth,
+		maxStringLength: options.maxStringLength ?? DEFAULT_LIMITS.maxStringLength,
+	};
+}
+
+/**
+ * Combines the registered tag handlers with those of the call options.
+ */
+function resolveTagHandlers(
+	options: CBORTagOptions,
+): Map<number, CBORTagHandler> {
+	const handlers = new Map<number, CBORTagHandler>();
+	for (const [tag, handler] of registeredTags) {
+		if (options.builtinTags === false && BUILTIN_TAGS.get(tag) === handler) {
+			continue;
+		}
+		handlers.set(tag, handler);
+	}
+	for (const [tag, handler] of Object.entries(options.tags ?? {})) {
+		if (handler) handlers.set(Number(tag), handler);
+		else handlers.delete(Number(tag));
+	}
+	return handlers;
+}
+
+function createDecodeContext(
+	options: CBORDecodeOptions,
+	byteLength = 0,
+): DecodeContext {
+	const context = {
+		...options,
+		...resolveLimits(options),
+		tagHandlers: resolveTagHandlers(options),
+		depth: 0,
+		items: 0,
+	};
+	if (byteLength > context.maxBytes) {
+		throw new CBORDecodeError(
+			"LIMIT_EXCEEDED",
+			`Buffer of ${byteLength} bytes exceeds maxBytes (${context.maxBytes})`,
+			0,
+		);
+	}
+	return context;
+}
 
 function decodeFirstItem(
-	buffer: ArrayBuffer,
+	bytes: Uint8Array,
 	startOffset: number,
+	context: DecodeContext,
 ): [CBORValue, number] {
-	const dataView = new DataView(buffer);
-	if (startOffset >= buffer.byteLength) {
-		throw new Error("Buffer too short for CBOR decoding");
+	const dataView = new DataView(
+		bytes.buffer,
+		bytes.byteOffset,
+		bytes.byteLength,
+	);
+	if (startOffset >= bytes.byteLength) {
+		throw new CBORDecodeError(
+			"UNEXPECTED_END",
+			"Buffer too short for CBOR decoding",
+			startOffset,
+		);
+	}
+	if (++context.items > context.maxTotalItems) {
+		throw new CBORDecodeError(
+			"LIMIT_EXCEEDED",
+			`Number of data items exceeds maxTotalItems (${context.maxTotalItems})`,
+			startOffset,
+		);
 	}
 	const firstByte = dataView.getUint8(startOffset);
 	const majorType = firstByte >> 5;
 	const additionalInfo = firstByte & 0x1f;
 	const offset = startOffset + 1;
+	if (additionalInfo >= 28 && additionalInfo <= 30) {
+		throw new CBORDecodeError(
+			"RESERVED_ADDITIONAL_INFO",
+			`Reserved additional info ${additionalInfo} is not well-formed`,
+			startOffset,
+		);
+	}
+	if (context.deterministic) {
+		checkDeterministicHead(dataView, offset, majorType, additionalInfo);
+	}
 
 	switch (majorType) {
 		case 0:
-			return decodeUnsignedInteger(dataView, offset, additionalInfo);
+			return decodeUnsignedInteger(dataView, offset, additionalInfo, context);
 		case 1:
-			return decodeNegativeInteger(dataView, offset, additionalInfo);
+			return decodeNegativeInteger(dataView, offset, additionalInfo, context);
 		case 2:
-			return decodeByteString(buffer, dataView, offset, additionalInfo);
+			return decodeByteString(bytes, dataView, offset, additionalInfo, context);
 		case 3:
-			return decodeTextString(buffer, dataView, offset, additionalInfo);
+			return decodeTextString(bytes, dataView, offset, additionalInfo, context);
 		case 4:
-			return decodeArray(buffer, dataView, offset, additionalInfo);
 		case 5:
-			return decodeMap(buffer, dataView, offset, additionalInfo);
-		case 6:
-			return decodeTag(buffer, dataView, offset, additionalInfo);
-		case 7:
-			return decodeSpecial(dataView, offset, additionalInfo);
+		case 6: {
+			if (++context.depth > context.maxDepth) {
+				throw new CBORDecodeError(
+					"LIMIT_EXCEEDED",
+					`Nesting depth exceeds maxDepth (${context.maxDepth})`,
+					startOffset,
+				);
+			}
+			const result =
+				majorType === 4
+					? decodeArray(bytes, dataView, offset, additionalInfo, context)
+					: majorType === 5
+						? decodeMap(bytes, dataView, offset, additionalInfo, context)
+						: decodeTag(bytes, dataView, offset, additionalInfo, context);
+			context.depth--;
+			return result;
+		}
 		default:
-			throw new Error(`Unsupported CBOR major type: ${majorType}`);
+			return decodeSpecial(dataView, offset, additionalInfo);
 	}
 }
 
@@ -152,133 +1264,442 @@ function decodeUnsignedInteger(
 	dataView: DataView,
 	offset: number,
 	additionalInfo: number,
-): [number, number] {
-	if (additionalInfo <= 23) return [additionalInfo, offset];
-	if (additionalInfo === 24) {
-		ensureBytes(dataView, offset, 1);
-		return [dataView.getUint8(offset), offset + 1];
-	}
-	if (additionalInfo === 25) {
-		ensureBytes(dataView, offset, 2);
-		return [dataView.getUint16(offset, false), offset + 2];
-	}
-	if (additionalInfo === 26) {
-		ensureBytes(dataView, offset, 4);
-		return [dataView.getUint32(offset, false), offset + 4];
-	}
-	if (additionalInfo === 27) {
-		ensureBytes(dataView, offset, 8);
-		return [Number(dataView.getBigUint64(offset, false)), offset + 8];
+	context: DecodeContext,
+): [number | bigint, number] {
+	if (additionalInfo > 27) {
+		throw new CBORDecodeError(
+			"INVALID_ADDITIONAL_INFO",
+			"Invalid additional info for unsigned integer",
+			offset - 1,
+		);
 	}
-	throw new Error("Invalid additional info for unsigned integer");
+	const [value, newOffset] = readArgument(dataView, offset, additionalInfo);
+	return [toInteger(value, context), newOffset];
 }
 
 function decodeNegativeInteger(
 	dataView: DataView,
 	offset: number,
 	additionalInfo: number,
-): [number, number] {
-	if (additionalInfo <= 23) return [-1 - additionalInfo, offset];
-	if (additionalInfo === 24) {
-		ensureBytes(dataView, offset, 1);
-		return [-1 - dataView.getUint8(offset), offset + 1];
+	context: DecodeContext,
+): [number | bigint, number] {
+	if (additionalInfo > 27) {
+		throw new CBORDecodeError(
+			"INVALID_ADDITIONAL_INFO",
+			"Invalid additional info for negative integer",
+			offset - 1,
+		);
 	}
-	if (additionalInfo === 25) {
-		ensureBytes(dataView, offset, 2);
-		return [-1 - dataView.getUint16(offset, false), offset + 2];
-	}
-	if (additionalInfo === 26) {
-		ensureBytes(dataView, offset, 4);
-		return [-1 - dataView.getUint32(offset, false), offset + 4];
-	}
-	if (additionalInfo === 27) {
-		ensureBytes(dataView, offset, 8);
-		return [-1 - Number(dataView.getBigUint64(offset, false)), offset + 8];
+	const [value, newOffset] = readArgument(dataView, offset, additionalInfo);
+	return [toInteger(-1n - value, context), newOffset];
+}
+
+/**
+ * Returns `value` as a `number` when it can be represented exactly, unless the
+ * caller asked for `bigint` results.
+ */
+function toInteger(value: bigint, context: DecodeContext): number | bigint {
+	if (context.useBigInt) return value;
+	if (
+		value >= BigInt(Number.MIN_SAFE_INTEGER) &&
+		value <= BigInt(Number.MAX_SAFE_INTEGER)
+	) {
+		return Number(value);
 	}
-	throw new Error("Invalid additional info for negative integer");
+	return value;
 }
 
 function decodeByteString(
-	buffer: ArrayBuffer,
+	bytes: Uint8Array,
 	dataView: DataView,
 	offset: number,
 	additionalInfo: number,
-): [ArrayBuffer, number] {
+	context: DecodeContext,
+): [ArrayBuffer | Uint8Array, number] {
+	if (additionalInfo === INDEFINITE_LENGTH) {
+		const [chunks, newOffset] = readChunks(bytes, dataView, offset, 2, context);
+		const joined = concatenateBuffers(chunks);
+		return [
+			context.byteStringType && context.byteStringType !== "arraybuffer"
+				? new Uint8Array(joined)
+				: joined,
+			newOffset,
+		];
+	}
 	const [length, newOffset] = readLength(dataView, offset, additionalInfo);
+	checkStringLength(length, context, offset - 1);
 	ensureBytes(dataView, newOffset, length);
-	return [buffer.slice(newOffset, newOffset + length), newOffset + length];
+	const endOffset = newOffset + length;
+	switch (context.byteStringType) {
+		case "subarray":
+			return [bytes.subarray(newOffset, endOffset), endOffset];
+		case "uint8array":
+			return [bytes.slice(newOffset, endOffset), endOffset];
+		default:
+			return [bytes.slice(newOffset, endOffset).buffer, endOffset];
+	}
 }
 
 function decodeTextString(
-	buffer: ArrayBuffer,
+	bytes: Uint8Array,
 	dataView: DataView,
 	offset: number,
 	additionalInfo: number,
+	context: DecodeContext,
 ): [string, number] {
+	if (additionalInfo === INDEFINITE_LENGTH) {
+		// Each chunk must be valid UTF-8 on its own (RFC 8949 §3.2.3)
+		const [chunks, newOffset] = readChunks(bytes, dataView, offset, 3, context);
+		const text = chunks
+			.map((chunk) => decodeUtf8(chunk, chunk.byteOffset - bytes.byteOffset))
+			.join("");
+		return [text, newOffset];
+	}
 	const [length, newOffset] = readLength(dataView, offset, additionalInfo);
+	checkStringLength(length, context, offset - 1);
 	ensureBytes(dataView, newOffset, length);
-	const bytes = new Uint8Array(buffer.slice(newOffset, newOffset + length));
+	return [
+		decodeUtf8(bytes.subarray(newOffset, newOffset + length), newOffset),
+		newOffset + length,
+	];
+}
+
+function checkStringLength(
+	length: number,
+	context: Required<CBOROptions>,
+	offset: number,
+): void {
+	if (length > context.maxStringLength) {
+		throw new CBORDecodeError(
+			"LIMIT_EXCEEDED",
+			`String length ${length} exceeds maxStringLength (${context.maxStringLength})`,
+			offset,
+		);
+	}
+}
+
+function decodeUtf8(bytes: Uint8Array, offset: number): string {
 	try {
-		return [
-			new TextDecoder("utf-8", { fatal: true }).decode(bytes),
-			newOffset + length,
-		];
+		return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
 	} catch (e) {
-		throw new Error("Invalid UTF-8 sequence in text string");
+		throw new CBORDecodeError(
+			"INVALID_UTF8",
+			"Invalid UTF-8 sequence in text string",
+			offset,
+		);
+	}
+}
+
+/**
+ * Reads the definite-length chunks of an indefinite-length byte or text string
+ * up to and including the terminating break code.
+ */
+function readChunks(
+	bytes: Uint8Array,
+	dataView: DataView,
+	offset: number,
+	majorType: number,
+	context: Required<CBOROptions>,
+): [Uint8Array[], number] {
+	const chunks: Uint8Array[] = [];
+	let totalLength = 0;
+	let currentOffset = offset;
+	for (;;) {
+		ensureBytes(dataView, currentOffset, 1);
+		const initialByte = dataView.getUint8(currentOffset);
+		if (initialByte === BREAK) return [chunks, currentOffset + 1];
+		const additionalInfo = initialByte & 0x1f;
+		if (
+			initialByte >> 5 !== majorType ||
+			additionalInfo === INDEFINITE_LENGTH
+		) {
+			throw new CBORDecodeError(
+				"INVALID_CHUNK",
+				"Indefinite-length string chunks must be definite-length strings of the same major type",
+				currentOffset,
+			);
+		}
+		const [length, chunkOffset] = readLength(
+			dataView,
+			currentOffset + 1,
+			additionalInfo,
+		);
+		totalLength += length;
+		checkStringLength(totalLength, context, offset - 1);
+		ensureBytes(dataView, chunkOffset, length);
+		chunks.push(bytes.subarray(chunkOffset, chunkOffset + length));
+		currentOffset = chunkOffset + length;
 	}
 }
 
 function decodeArray(
-	buffer: ArrayBuffer,
+	bytes: Uint8Array,
 	dataView: DataView,
 	offset: number,
 	additionalInfo: number,
+	context: DecodeContext,
 ): [CBORValue[], number] {
+	if (additionalInfo === INDEFINITE_LENGTH) {
+		const array: CBORValue[] = [];
+		let currentOffset = offset;
+		while (!isBreak(dataView, currentOffset)) {
+			if (array.length >= context.maxContainerItems) {
+				throw new CBORDecodeError(
+					"LIMIT_EXCEEDED",
+					`Array length exceeds maxContainerItems (${context.maxContainerItems})`,
+					offset - 1,
+				);
+			}
+			const [item, nextOffset] = decodeChild(
+				bytes,
+				currentOffset,
+				context,
+				array.length,
+			);
+			array.push(revive(array, array.length, item, context));
+			currentOffset = nextOffset;
+		}
+		return [array, currentOffset + 1];
+	}
 	const [length, newOffset] = readLength(dataView, offset, additionalInfo);
-	if (length > 10000)
-		throw new Error("Array length exceeds reasonable limit");
+	if (length > context.maxContainerItems) {
+		throw new CBORDecodeError(
+			"LIMIT_EXCEEDED",
+			`Array length ${length} exceeds maxContainerItems (${context.maxContainerItems})`,
+			offset - 1,
+		);
+	}
 	const array: CBORValue[] = [];
 	let currentOffset = newOffset;
 	for (let i = 0; i < length; i++) {
-		const [item, nextOffset] = decodeFirstItem(buffer, currentOffset);
-		array.push(item);
+		const [item, nextOffset] = decodeChild(bytes, currentOffset, context, i);
+		array.push(revive(array, i, item, context));
 		currentOffset = nextOffset;
 	}
 	return [array, currentOffset];
 }
 
 function decodeMap(
-	buffer: ArrayBuffer,
+	bytes: Uint8Array,
 	dataView: DataView,
 	offset: number,
 	additionalInfo: number,
-): [{ [key: string | number]: CBORValue }, number] {
+	context: DecodeContext,
+): [{ [key: string | number]: CBORValue } | Map<CBORValue, CBORValue>, number] {
+	const object: { [key: string | number]: CBORValue } = {};
+	const map = new Map<CBORValue, CBORValue>();
+	const asMap = context.mapType === "map";
+	// Encoded non-scalar keys: `Map` compares those by identity
+	const itemKeys = new Set<string>();
+	let previousKey: Uint8Array | undefined;
+	const decodeEntry = (entryOffset: number): number => {
+		const [key, keyOffset] = decodeFirstItem(bytes, entryOffset, context);
+		const encodedKey = bytes.subarray(entryOffset, keyOffset);
+		if (context.deterministic) {
+			if (
+				previousKey &&
+				compareEncodedKeys(previousKey, encodedKey, context.deterministic) >= 0
+			) {
+				throw new CBORDecodeError(
+					"NON_DETERMINISTIC",
+					"Map keys are not in deterministic order",
+					entryOffset,
+				);
+			}
+			previousKey = encodedKey;
+		}
+		let segment: string | number;
+		let duplicate: boolean;
+		if (asMap) {
+			segment = mapKeySegment(key, map.size);
+			if (isScalarKey(key)) {
+				// Distinct items such as 1 and 1.0, or 0.0 and -0.0, would
+				// collapse into one entry
+				duplicate = map.has(key);
+			} else {
+				const itemKey = toHexString(encodedKey);
+				duplicate = itemKeys.has(itemKey);
+				itemKeys.add(itemKey);
+			}
+		} else {
+			if (
+				typeof key !== "string" &&
+				typeof key !== "number" &&
+				typeof key !== "bigint"
+			) {
+				throw new CBORDecodeError(
+					"UNSUPPORTED_MAP_KEY",
+					'CBOR map keys must be strings or numbers; decode with mapType "map" to accept other keys',
+					entryOffset,
+				);
+			}
+			segment = typeof key === "bigint" ? key.toString() : key;
+			duplicate = Object.hasOwn(object, segment);
+		}
+		if (context.strict && duplicate) {
+			throw new CBORDecodeError(
+				"DUPLICATE_MAP_KEY",
+				`Strict mode: duplicate map key ${JSON.stringify(segment)}`,
+				entryOffset,
+			);
+		}
+		const [decoded, valueOffset] = decodeChild(
+			bytes,
+			keyOffset,
+			context,
+			segment,
+		);
+		const value = asMap
+			? revive(map, key, decoded, context)
+			: revive(object, segment, decoded, context);
+		if (asMap) {
+			map.set(key, value);
+		} else if (segment === "__proto__") {
+			// Assignment would replace the prototype instead of adding a key
+			Object.defineProperty(object, segment, {
+				value,
+				enumerable: true,
+				writable: true,
+				configurable: true,
+			});
+		} else {
+			object[segment] = value;
+		}
+		return valueOffset;
+	};
+
+	if (additionalInfo === INDEFINITE_LENGTH) {
+		let currentOffset = offset;
+		let numPairs = 0;
+		while (!isBreak(dataView, currentOffset)) {
+			if (++numPairs > context.maxContainerItems) {
+				throw new CBORDecodeError(
+					"LIMIT_EXCEEDED",
+					`Map size exceeds maxContainerItems (${context.maxContainerItems})`,
+					offset - 1,
+				);
+			}
+			currentOffset = decodeEntry(currentOffset);
+		}
+		return [asMap ? map : object, currentOffset + 1];
+	}
 	const [numPairs, newOffset] = readLength(dataView, offset, additionalInfo);
-	if (numPairs > 10000)
-		throw new Error("Map size exceeds reasonable limit");
-	const map: { [key: string | number]: CBORValue } = {};
+	if (numPairs > context.maxContainerItems) {
+		throw new CBORDecodeError(
+			"LIMIT_EXCEEDED",
+			`Map size ${numPairs} exceeds maxContainerItems (${context.maxContainerItems})`,
+			offset - 1,
+		);
+	}
 	let currentOffset = newOffset;
 	for (let i = 0; i < numPairs; i++) {
-		const [key, keyOffset] = decodeFirstItem(buffer, currentOffset);
-		if (typeof key !== "string" && typeof key !== "number") {
-			throw new Error("CBOR map keys must be strings or numbers");
-		}
-		const [value, valueOffset] = decodeFirstItem(buffer, keyOffset);
-		map[key] = value;
-		currentOffset = valueOffset;
+		currentOffset = decodeEntry(currentOffset);
 	}
-	return [map, currentOffset];
+	return [asMap ? map : object, currentOffset];
 }
 
 function decodeTag(
-	buffer: ArrayBuffer,
+	bytes: Uint8Array,
 	dataView: DataView,
 	offset: number,
 	additionalInfo: number,
-): [{ tag: number; value: CBORValue }, number] {
+	context: DecodeContext,
+): [CBORValue, number] {
 	const [tag, newOffset] = readLength(dataView, offset, additionalInfo);
-	const [value, finalOffset] = decodeFirstItem(buffer, newOffset);
-	return [{ tag, value }, finalOffset];
+	const [value, finalOffset] = decodeFirstItem(bytes, newOffset, context);
+	if (tag === 2 || tag === 3) {
+		return [decodeBignum(tag, value, context, offset - 1), finalOffset];
+	}
+	const handler = context.tagHandlers.get(tag);
+	if (!handler?.decode) {
+		const typedArray = decodeTypedArray(tag, value, offset - 1);
+		return [typedArray ?? new CBORTag(tag, value), finalOffset];
+	}
+	try {
+		return [handler.decode(value) as CBORValue, finalOffset];
+	} catch (error) {
+		if (error instanceof CBORDecodeError) throw error;
+		throw new CBORDecodeError(
+			"INVALID_TAG_CONTENT",
+			`Invalid content for tag ${tag}: ${error instanceof Error ? error.message : String(error)}`,
+			offset - 1,
+		);
+	}
+}
+
+/**
+ * Decodes an RFC 8746 typed array, or returns `undefined` if `tag` is not a
+ * supported typed array tag.
+ */
+function decodeTypedArray(
+	tag: number,
+	value: CBORValue,
+	offset: number,
+): TypedArray | undefined {
+	const typedArray = TYPED_ARRAYS_BY_TAG.get(tag);
+	if (!typedArray) return undefined;
+	if (!(value instanceof ArrayBuffer || value instanceof Uint8Array)) {
+		throw new CBORDecodeError(
+			"INVALID_TAG_CONTENT",
+			`Typed array tag ${tag} content must be a byte string`,
+			offset,
+		);
+	}
+	const { type, littleEndian } = typedArray;
+	const size = type.BYTES_PER_ELEMENT;
+	// Copy so that the elements are aligned and can be byte-swapped in place
+	const bytes = new Uint8Array(value).slice();
+	if (bytes.length % size !== 0) {
+		throw new CBORDecodeError(
+			"INVALID_TAG_CONTENT",
+			`Typed array tag ${tag} content length ${bytes.length} is not a multiple of ${size}`,
+			offset,
+		);
+	}
+	if (size > 1 && littleEndian !== LITTLE_ENDIAN_PLATFORM) {
+		swapBytes(bytes, size);
+	}
+	return new type(bytes.buffer);
+}
+
+/**
+ * Reverses the byte order of each `size`-byte element in place.
+ */
+function swapBytes(bytes: Uint8Array, size: number): void {
+	for (let i = 0; i < bytes.length; i += size) {
+		bytes.subarray(i, i + size).reverse();
+	}
+}
+
+/**
+ * Decodes an unsigned (tag 2) or negative (tag 3) bignum (RFC 8949 §3.4.3).
+ */
+function decodeBignum(
+	tag: 2 | 3,
+	value: CBORValue,
+	context: DecodeContext,
+	offset: number,
+): number | bigint {
+	if (!(value instanceof ArrayBuffer || value instanceof Uint8Array)) {
+		throw new CBORDecodeError(
+			"INVALID_BIGNUM",
+			"Bignum tag content must be a byte string",
+			offset,
+		);
+	}
+	const bytes = new Uint8Array(value);
+	let magnitude = 0n;
+	for (const byte of bytes) {
+		magnitude = (magnitude << 8n) | BigInt(byte);
+	}
+	if (context.deterministic && (magnitude <= MAX_UINT64 || bytes[0] === 0)) {
+		throw new CBORDecodeError(
+			"NON_DETERMINISTIC",
+			"Bignums must be minimal and exceed 64 bits in deterministic mode",
+			offset,
+		);
+	}
+	return toInteger(tag === 2 ? magnitude : -1n - magnitude, context);
 }
 
 function decodeSpecial(
@@ -295,18 +1716,62 @@ function decodeSpecial(
 			return [null, offset];
 		case 23:
 			return [undefined, offset];
+		case 24: {
+			ensureBytes(dataView, offset, 1);
+			const simpleValue = dataView.getUint8(offset);
+			if (simpleValue < 32) {
+				throw new CBORDecodeError(
+					"INVALID_SIMPLE_VALUE",
+					`Two-byte simple value ${simpleValue} below 32 is not well-formed`,
+					offset - 1,
+				);
+			}
+			throw new CBORDecodeError(
+				"UNSUPPORTED_SIMPLE_VALUE",
+				`Unsupported simple value: ${simpleValue}`,
+				offset - 1,
+			);
+		}
 		case 25:
 			ensureBytes(dataView, offset, 2);
-			return [dataView.getFloat32(offset, false), offset + 2];
+			return [decodeFloat16(dataView.getUint16(offset, false)), offset + 2];
 		case 26:
 			ensureBytes(dataView, offset, 4);
 			return [dataView.getFloat32(offset, false), offset + 4];
 		case 27:
 			ensureBytes(dataView, offset, 8);
 			return [dataView.getFloat64(offset, false), offset + 8];
+		case INDEFINITE_LENGTH:
+			throw new CBORDecodeError(
+				"UNEXPECTED_BREAK",
+				"Unexpected break code outside indefinite-length item",
+				offset - 1,
+			);
 		default:
-			throw new Error(`Unsupported special value: ${additionalInfo}`);
+			throw new CBORDecodeError(
+				"UNSUPPORTED_SIMPLE_VALUE",
+				`Unsupported special value: ${additionalInfo}`,
+				offset - 1,
+			);
+	}
+}
+
+/**
+ * Decodes an IEEE 754 binary16 value, including subnormals, infinities and NaN
+ * (RFC 8949 Appendix D).
+ */
+function decodeFloat16(half: number): number {
+	const exponent = (half >> 10) & 0x1f;
+	const mantissa = half & 0x3ff;
+	let value: number;
+	if (exponent === 0) {
+		value = mantissa * 2 ** -24;
+	} else if (exponent !== 31) {
+		value = (mantissa + 1024) * 2 ** (exponent - 25);
+	} else {
+		value = mantissa === 0 ? Number.POSITIVE_INFINITY : Number.NaN;
 	}
+	return half & 0x8000 ? -value : value;
 }
 
 function readLength(
@@ -314,214 +1779,2315 @@ function readLength(
 	offset: number,
 	additionalInfo: number,
 ): [number, number] {
-	if (additionalInfo <= 23) return [additionalInfo, offset];
+	if (additionalInfo > 27) {
+		throw new CBORDecodeError(
+			"INVALID_ADDITIONAL_INFO",
+			"Unsupported CBOR length encoding",
+			offset - 1,
+		);
+	}
+	const [length, newOffset] = readArgument(dataView, offset, additionalInfo);
+	return [Number(length), newOffset];
+}
+
+/**
+ * Reads the argument of an item head (RFC 8949 §3) as a `bigint` so that the
+ * full unsigned 64-bit range is preserved.
+ */
+function readArgument(
+	dataView: DataView,
+	offset: number,
+	additionalInfo: number,
+): [bigint, number] {
+	if (additionalInfo <= 23) return [BigInt(additionalInfo), offset];
 	if (additionalInfo === 24) {
 		ensureBytes(dataView, offset, 1);
-		return [dataView.getUint8(offset), offset + 1];
+		return [BigInt(dataView.getUint8(offset)), offset + 1];
 	}
 	if (additionalInfo === 25) {
 		ensureBytes(dataView, offset, 2);
-		return [dataView.getUint16(offset, false), offset + 2];
+		return [BigInt(dataView.getUint16(offset, false)), offset + 2];
 	}
 	if (additionalInfo === 26) {
 		ensureBytes(dataView, offset, 4);
-		return [dataView.getUint32(offset, false), offset + 4];
+		return [BigInt(dataView.getUint32(offset, false)), offset + 4];
+	}
+	ensureBytes(dataView, offset, 8);
+	return [dataView.getBigUint64(offset, false), offset + 8];
+}
+
+/**
+ * Rejects item heads that a deterministic encoder would never produce: an
+ * argument that fits a shorter head, a float that fits a shorter float, or an
+ * indefinite length.
+ */
+function checkDeterministicHead(
+	dataView: DataView,
+	offset: number,
+	majorType: number,
+	additionalInfo: number,
+): void {
+	if (
+		additionalInfo === INDEFINITE_LENGTH &&
+		majorType >= 2 &&
+		majorType <= 5
+	) {
+		throw new CBORDecodeError(
+			"NON_DETERMINISTIC",
+			"Indefinite-length items are not allowed in deterministic mode",
+			offset - 1,
+		);
+	}
+	if (additionalInfo < 24 || additionalInfo > 27) return;
+	if (majorType === 7) {
+		if (additionalInfo === 26) {
+			ensureBytes(dataView, offset, 4);
+			checkShortestFloat(dataView.getFloat32(offset, false), 4, offset - 1);
+		} else if (additionalInfo === 27) {
+			ensureBytes(dataView, offset, 8);
+			checkShortestFloat(dataView.getFloat64(offset, false), 8, offset - 1);
+		}
+		return;
+	}
+	const [argument] = readArgument(dataView, offset, additionalInfo);
+	if (argument < SHORTEST_ARGUMENT_MINIMUM[additionalInfo - 24]) {
+		throw new CBORDecodeError(
+			"NON_DETERMINISTIC",
+			"Non-shortest integer or length encoding is not allowed in deterministic mode",
+			offset - 1,
+		);
 	}
-	if (additionalInfo === 27) {
-		ensureBytes(dataView, offset, 8);
-		return [Number(dataView.getBigUint64(offset, false)), offset + 8];
+}
+
+function checkShortestFloat(value: number, size: 4 | 8, offset: number): void {
+	if (
+		toFloat16(value) !== undefined ||
+		(size === 8 && Math.fround(value) === value)
+	) {
+		throw new CBORDecodeError(
+			"NON_DETERMINISTIC",
+			"Non-shortest float encoding is not allowed in deterministic mode",
+			offset,
+		);
 	}
-	throw new Error("Unsupported CBOR length encoding");
+}
+
+function isBreak(dataView: DataView, offset: number): boolean {
+	ensureBytes(dataView, offset, 1);
+	return dataView.getUint8(offset) === BREAK;
 }
 
 function ensureBytes(dataView: DataView, offset: number, length: number): void {
 	if (offset + length > dataView.byteLength) {
-		throw new Error("Buffer too short for CBOR data");
+		throw new CBORDecodeError(
+			"UNEXPECTED_END",
+			"Buffer too short for CBOR data",
+			offset,
+		);
+	}
+}
+
+/**
+ * Decodes an array element or map value, prefixing the path of any decode
+ * error with the element's index or key.
+ */
+function decodeChild(
+	bytes: Uint8Array,
+	offset: number,
+	context: DecodeContext,
+	segment: string | number,
+): [CBORValue, number] {
+	try {
+		return decodeFirstItem(bytes, offset, context);
+	} catch (error) {
+		throw prefixPath(error, segment);
+	}
+}
+
+/**
+ * Decodes a top-level item and passes it through the `reviver` option.
+ */
+function decodeTopLevelItem(
+	bytes: Uint8Array,
+	startOffset: number,
+	context: DecodeContext,
+): [CBORValue, number] {
+	const [value, offset] = decodeFirstItem(bytes, startOffset, context);
+	return [revive({ "": value }, "", value, context), offset];
+}
+
+/**
+ * Passes a decoded array element, map value or top-level item through the
+ * `reviver` option.
+ */
+function revive(
+	holder: unknown,
+	key: CBORValue,
+	value: CBORValue,
+	context: DecodeContext,
+): CBORValue {
+	if (!context.reviver) return value;
+	return context.reviver.call(holder, key, value) as CBORValue;
+}
+
+function prefixPath(error: unknown, segment: string | number): unknown {
+	const path = `/${escapePathSegment(segment)}`;
+	if (error instanceof CBORDecodeError) {
+		return new CBORDecodeError(
+			error.code,
+			error.reason,
+			error.offset,
+			path + error.path,
+		);
+	}
+	if (error instanceof CBOREncodeError) {
+		return new CBOREncodeError(error.code, error.reason, path + error.path);
 	}
+	return error;
 }
 
 //
-// --- Encoding Helpers ---
+// --- Streaming Helpers ---
 //
 
-function encodeValue(value: CBORValue, buffers: Uint8Array[]): void {
-	if (typeof value === "number") {
-		if (Number.isInteger(value)) {
-			if (value >= 0) encodeUnsignedInteger(value, buffers);
-			else encodeNegativeInteger(value, buffers);
-		} else {
-			encodeFloat(value, buffers);
+/**
+ * Progress of finding the end of a top-level item in a stream: the offset
+ * of the next head and, for each open container, how many items it still
+ * needs (`Infinity` until its break code).
+ */
+interface ScanState {
+	offset: number;
+	remaining: number[];
+}
+
+/**
+ * Advances `state` over the data items available in `bytes` without decoding
+ * them. Returns the length of the top-level item once it is complete, or
+ * `undefined` if more bytes are needed, in which case the scan can resume
+ * from `state` when they arrive. Malformed input ends the scan right after
+ * the offending head so that the decoder reports it.
+ */
+function scanItem(
+	bytes: Uint8Array,
+	state: ScanState,
+	context: DecodeContext,
+): number | undefined {
+	const { remaining } = state;
+	while (state.offset < bytes.length) {
+		const initialByte = bytes[state.offset];
+		const majorType = initialByte >> 5;
+		const additionalInfo = initialByte & 0x1f;
+		let offset = state.offset + 1;
+		let argument = additionalInfo;
+		if (additionalInfo >= 24 && additionalInfo <= 27) {
+			const size = 1 << (additionalInfo - 24);
+			if (offset + size > bytes.length) return undefined;
+			argument = 0;
+			for (let i = 0; i < size; i++) {
+				argument = argument * 256 + bytes[offset + i];
+			}
+			offset += size;
+		} else if (additionalInfo >= 28 && additionalInfo <= 30) {
+			return offset;
 		}
-	} else if (value instanceof ArrayBuffer) {
-		encodeByteString(value, buffers);
-	} else if (typeof value === "string") {
-		encodeTextString(value, buffers);
-	} else if (Array.isArray(value)) {
-		encodeArray(value, buffers);
-	} else if (typeof value === "object" && value !== null) {
-		if ("tag" in value && "value" in value && typeof value.tag === "number") {
-			encodeTag(value.tag, value.value, buffers);
-		} else {
-			encodeMap(value, buffers);
+
+		let complete = true;
+		if (majorType === 2 || majorType === 3) {
+			if (additionalInfo === INDEFINITE_LENGTH) {
+				remaining.push(Number.POSITIVE_INFINITY);
+				complete = false;
+			} else {
+				if (argument > context.maxBytes) {
+					throw new CBORDecodeError(
+						"LIMIT_EXCEEDED",
+						`String length ${argument} exceeds maxBytes (${context.maxBytes})`,
+						state.offset,
+					);
+				}
+				if (offset + argument > bytes.length) return undefined;
+				offset += argument;
+			}
+		} else if (majorType === 4 || majorType === 5) {
+			const count =
+				additionalInfo === INDEFINITE_LENGTH
+					? Number.POSITIVE_INFINITY
+					: majorType === 5
+						? argument * 2
+						: argument;
+			if (count > 0) {
+				remaining.push(count);
+				complete = false;
+			}
+		} else if (majorType === 6) {
+			remaining.push(1);
+			complete = false;
+		} else if (majorType === 7 && additionalInfo === INDEFINITE_LENGTH) {
+			if (remaining.at(-1) !== Number.POSITIVE_INFINITY) return offset;
+			remaining.pop();
+		}
+		state.offset = offset;
+		// Indefinite-length strings add a level the decoder does not count
+		if (remaining.length > context.maxDepth + 1) return offset;
+		if (complete) {
+			while (remaining.length > 0 && --remaining[remaining.length - 1] === 0) {
+				remaining.pop();
+			}
+			if (remaining.length === 0) return offset;
 		}
-	} else if (typeof value === "boolean") {
-		encodeBoolean(value, buffers);
-	} else if (value === null) {
-		encodeNull(buffers);
-	} else if (value === undefined) {
-		encodeUndefined(buffers);
-	} else {
-		throw new Error(
-			`Unsupported value type for CBOR encoding: ${typeof value}`,
-		);
 	}
+	return undefined;
 }
 
-function encodeUnsignedInteger(value: number, buffers: Uint8Array[]): void {
-	if (value < 0 || !Number.isInteger(value)) {
-		throw new Error("Only unsigned integers are supported");
-	}
-	if (value <= 23) {
-		buffers.push(new Uint8Array([value]));
-	} else if (value <= 0xff) {
-		buffers.push(new Uint8Array([0x18, value]));
-	} else if (value <= 0xffff) {
-		const buffer = new Uint8Array(3);
-		buffer[0] = 0x19;
-		new DataView(buffer.buffer).setUint16(1, value, false);
-		buffers.push(buffer);
-	} else if (value <= 0xffffffff) {
-		const buffer = new Uint8Array(5);
-		buffer[0] = 0x1a;
-		new DataView(buffer.buffer).setUint32(1, value, false);
-		buffers.push(buffer);
-	} else if (value <= Number.MAX_SAFE_INTEGER) {
-		const buffer = new Uint8Array(9);
-		buffer[0] = 0x1b;
-		new DataView(buffer.buffer).setBigUint64(1, BigInt(value), false);
-		buffers.push(buffer);
-	} else {
-		throw new Error("Integer value too large for CBOR encoding");
-	}
-}
-
-function encodeNegativeInteger(value: number, buffers: Uint8Array[]): void {
-	if (!Number.isInteger(value) || value >= 0) {
-		throw new Error("Only negative integers are supported");
-	}
-	const absValue = Math.abs(value) - 1;
-	if (absValue <= 23) {
-		buffers.push(new Uint8Array([0x20 | absValue]));
-	} else if (absValue <= 0xff) {
-		buffers.push(new Uint8Array([0x38, absValue]));
-	} else if (absValue <= 0xffff) {
-		const buffer = new Uint8Array(3);
-		buffer[0] = 0x39;
-		new DataView(buffer.buffer).setUint16(1, absValue, false);
-		buffers.push(buffer);
-	} else if (absValue <= 0xffffffff) {
-		const buffer = new Uint8Array(5);
-		buffer[0] = 0x3a;
-		new DataView(buffer.buffer).setUint32(1, absValue, false);
-		buffers.push(buffer);
-	} else if (absValue <= Number.MAX_SAFE_INTEGER) {
-		const buffer = new Uint8Array(9);
-		buffer[0] = 0x3b;
-		new DataView(buffer.buffer).setBigUint64(1, BigInt(absValue), false);
-		buffers.push(buffer);
-	} else {
-		throw new Error("Integer value too large for CBOR encoding");
+async function* streamChunks(
+	source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+): AsyncGenerator<Uint8Array, void, undefined> {
+	if (!("getReader" in source)) {
+		yield* source;
+		return;
+	}
+	const reader = source.getReader();
+	let done = false;
+	try {
+		while (!done) {
+			const result = await reader.read();
+			done = result.done;
+			if (result.value) yield result.value;
+		}
+	} finally {
+		if (!done) await reader.cancel();
+		reader.releaseLock();
 	}
 }
 
-function encodeByteString(value: ArrayBuffer, buffers: Uint8Array[]): void {
-	const length = value.byteLength;
-	const header = encodeLength(2, length);
-	buffers.push(header);
-	buffers.push(new Uint8Array(value));
-}
-
-function encodeTextString(value: string, buffers: Uint8Array[]): void {
-	const bytes = new TextEncoder().encode(value);
-	const header = encodeLength(3, bytes.length);
-	buffers.push(header);
-	buffers.push(bytes);
+/**
+ * An array or map opened by `CBORStreamEncoder`. `length` is the number of
+ * items it holds, counting keys and values separately, or `Infinity` for an
+ * indefinite-length container.
+ */
+interface StreamContainer {
+	majorType: 4 | 5;
+	length: number;
+	count: number;
 }
 
-function encodeArray(value: CBORValue[], buffers: Uint8Array[]): void {
-	if (value.length > 10000)
-		throw new Error("Array length exceeds reasonable limit");
-	const header = encodeLength(4, value.length);
-	buffers.push(header);
-	for (const item of value) {
-		encodeValue(item, buffers);
+/**
+ * Decodes a complete top-level item of a stream, reporting errors at their
+ * stream offset.
+ */
+function decodeStreamItem(
+	bytes: Uint8Array,
+	streamOffset: number,
+	context: DecodeContext,
+): CBORSequenceItem {
+	context.items = 0;
+	try {
+		const [value] = decodeTopLevelItem(bytes, 0, context);
+		return { value, offset: streamOffset, length: bytes.byteLength };
+	} catch (error) {
+		if (error instanceof CBORDecodeError) {
+			throw new CBORDecodeError(
+				error.code,
+				error.reason,
+				streamOffset + error.offset,
+				error.path,
+			);
+		}
+		throw error;
 	}
 }
 
-function encodeMap(
-	value: { [key: string | number]: CBORValue },
-	buffers: Uint8Array[],
-): void {
-	const entries = Object.entries(value);
-	if (entries.length > 10000)
-		throw new Error("Map size exceeds reasonable limit");
-	entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
-	const header = encodeLength(5, entries.length);
-	buffers.push(header);
-	for (const [key, val] of entries) {
-		const numKey = Number(key);
-		if (!Number.isNaN(numKey)) {
-			encodeValue(numKey, buffers);
-		} else {
-			encodeTextString(key, buffers);
+//
+// --- Path Queries ---
+//
+
+/**
+ * Returns the offset of the element or value addressed by `segment` in the
+ * array or map at `offset`, looking through any tags on it.
+ */
+function findChild(
+	bytes: Uint8Array,
+	dataView: DataView,
+	startOffset: number,
+	segment: CBORPathSegment,
+	context: DecodeContext,
+): number | undefined {
+	let offset = startOffset;
+	for (let depth = 0; ; depth++) {
+		ensureBytes(dataView, offset, 1);
+		if (dataView.getUint8(offset) >> 5 !== 6) break;
+		if (depth >= context.maxDepth) {
+			throw new CBORDecodeError(
+				"LIMIT_EXCEEDED",
+				`Nesting depth exceeds maxDepth (${context.maxDepth})`,
+				offset,
+			);
+		}
+		[, offset] = readArgument(
+			dataView,
+			offset + 1,
+			checkHeadInfo(dataView, offset),
+		);
+	}
+	const majorType = dataView.getUint8(offset) >> 5;
+	if (majorType !== 4 && majorType !== 5) return undefined;
+	const additionalInfo = checkHeadInfo(dataView, offset);
+	const indefinite = additionalInfo === INDEFINITE_LENGTH;
+	let [count, position] = indefinite
+		? [Number.POSITIVE_INFINITY, offset + 1]
+		: readLength(dataView, offset + 1, additionalInfo);
+	const atEnd = () => indefinite && isBreak(dataView, position);
+	if (majorType === 4) {
+		if (typeof segment !== "number" || !Number.isInteger(segment)) {
+			return undefined;
 		}
-		encodeValue(val, buffers);
+		if (segment < 0 || segment >= count) return undefined;
+		for (let i = 0; i < segment; i++) {
+			if (atEnd()) return undefined;
+			position = skipItem(dataView, position, context, 1);
+		}
+		return atEnd() ? undefined : position;
+	}
+	for (; count > 0; count--) {
+		if (atEnd()) return undefined;
+		const keyEnd = skipItem(dataView, position, context, 1);
+		if (keyMatches(bytes, position, segment, context)) return keyEnd;
+		position = skipItem(dataView, keyEnd, context, 1);
 	}
+	return undefined;
 }
 
-function encodeTag(tag: number, value: CBORValue, buffers: Uint8Array[]): void {
-	if (!Number.isInteger(tag) || tag < 0) {
-		throw new Error("Tag must be a non-negative integer");
+function keyMatches(
+	bytes: Uint8Array,
+	offset: number,
+	segment: CBORPathSegment,
+	context: DecodeContext,
+): boolean {
+	// Only integers and text strings can equal a segment
+	const majorType = bytes[offset] >> 5;
+	if (majorType > 1 && majorType !== 3) return false;
+	context.items = 0;
+	const [key] = decodeFirstItem(bytes, offset, context);
+	if (typeof key === "string" || typeof segment === "string") {
+		return String(key) === String(segment);
 	}
-	const header = encodeLength(6, tag);
-	buffers.push(header);
-	encodeValue(value, buffers);
+	return (
+		(typeof segment === "bigint" || Number.isInteger(segment)) &&
+		BigInt(key as number | bigint) === BigInt(segment)
+	);
 }
 
-function encodeFloat(value: number, buffers: Uint8Array[]): void {
-	const buffer = new Uint8Array(9);
-	buffer[0] = 0xfb;
-	new DataView(buffer.buffer).setFloat64(1, value, false);
-	buffers.push(buffer.slice(0, 9));
+/**
+ * Returns the offset right after the item at `offset`, checking that it is
+ * well-formed but without decoding it.
+ */
+function skipItem(
+	dataView: DataView,
+	startOffset: number,
+	context: DecodeContext,
+	depth: number,
+): number {
+	if (depth > context.maxDepth) {
+		throw new CBORDecodeError(
+			"LIMIT_EXCEEDED",
+			`Nesting depth exceeds maxDepth (${context.maxDepth})`,
+			startOffset,
+		);
+	}
+	ensureBytes(dataView, startOffset, 1);
+	const majorType = dataView.getUint8(startOffset) >> 5;
+	const additionalInfo = checkHeadInfo(dataView, startOffset);
+	if (additionalInfo === INDEFINITE_LENGTH) {
+		let offset = startOffset + 1;
+		while (!isBreak(dataView, offset)) {
+			if (
+				(majorType === 2 || majorType === 3) &&
+				dataView.getUint8(offset) >> 5 !== majorType
+			) {
+				throw new CBORDecodeError(
+					"INVALID_CHUNK",
+					"Indefinite-length string chunks must be definite-length strings of the same major type",
+					offset,
+				);
+			}
+			offset = skipItem(dataView, offset, context, depth + 1);
+		}
+		return offset + 1;
+	}
+	const [argument, offset] = readArgument(
+		dataView,
+		startOffset + 1,
+		additionalInfo,
+	);
+	switch (majorType) {
+		case 2:
+		case 3:
+			ensureBytes(dataView, offset, Number(argument));
+			return offset + Number(argument);
+		case 4:
+		case 5: {
+			const count = Number(argument) * (majorType === 5 ? 2 : 1);
+			let position = offset;
+			for (let i = 0; i < count; i++) {
+				position = skipItem(dataView, position, context, depth + 1);
+			}
+			return position;
+		}
+		case 6:
+			return skipItem(dataView, offset, context, depth + 1);
+		default:
+			return offset;
+	}
 }
 
-function encodeLength(majorType: number, length: number): Uint8Array {
-	const mt = majorType << 5;
-	if (length <= 23) return new Uint8Array([mt | length]);
-	if (length <= 0xff) return new Uint8Array([mt | 24, length]);
-	if (length <= 0xffff) {
-		const buffer = new Uint8Array(3);
-		buffer[0] = mt | 25;
-		new DataView(buffer.buffer).setUint16(1, length, false);
-		return buffer;
+/**
+ * Returns the additional info of the head at `offset`, rejecting reserved
+ * values and indefinite lengths where they are not allowed.
+ */
+function checkHeadInfo(dataView: DataView, offset: number): number {
+	const initialByte = dataView.getUint8(offset);
+	const majorType = initialByte >> 5;
+	const additionalInfo = initialByte & 0x1f;
+	if (additionalInfo >= 28 && additionalInfo <= 30) {
+		throw new CBORDecodeError(
+			"RESERVED_ADDITIONAL_INFO",
+			`Reserved additional info ${additionalInfo} is not well-formed`,
+			offset,
+		);
 	}
-	if (length <= 0xffffffff) {
-		const buffer = new Uint8Array(5);
-		buffer[0] = mt | 26;
-		new DataView(buffer.buffer).setUint32(1, length, false);
-		return buffer;
+	if (additionalInfo === INDEFINITE_LENGTH) {
+		if (majorType === 7) {
+			throw new CBORDecodeError(
+				"UNEXPECTED_BREAK",
+				"Unexpected break code outside indefinite-length item",
+				offset,
+			);
+		}
+		if (majorType < 2 || majorType === 6) {
+			throw new CBORDecodeError(
+				"INVALID_ADDITIONAL_INFO",
+				`Indefinite length is not allowed for major type ${majorType}`,
+				offset,
+			);
+		}
 	}
-	throw new Error("Length too large for CBOR encoding");
+	return additionalInfo;
 }
 
-function encodeBoolean(value: boolean, buffers: Uint8Array[]): void {
-	buffers.push(new Uint8Array([value ? 0xf5 : 0xf4]));
-}
+//
+// --- Encoding Helpers ---
+//
+
+type EncodeContext = CBOREncodeOptions &
+	Required<CBOROptions> & {
+		/** Handlers that can encode application values, in matching order */
+		tagEncoders: [number, CBORTagHandler][];
+		/** Nesting depth of the value being encoded */
+		depth: number;
+		/** Number of data items encoded so far */
+		items: number;
+	};
+
+const textEncoder = new TextEncoder();
+
+/**
+ * The encoder's output: a single byte buffer written in place. It grows as
+ * needed up to `maxLength` bytes, unless it wraps a caller-supplied target.
+ */
+class EncodeBuffer {
+	bytes: Uint8Array;
+	view: DataView;
+	length = 0;
+	private readonly maxLength: number;
+	private readonly growable: boolean;
+
+	constructor(maxLength: number, target?: Uint8Array) {
+		this.maxLength = maxLength;
+		this.growable = target === undefined;
+		this.bytes = target ?? new Uint8Array(Math.min(256, maxLength));
+		this.view = new DataView(
+			this.bytes.buffer,
+			this.bytes.byteOffset,
+			this.bytes.byteLength,
+		);
+	}
+
+	/**
+	 * Makes room for `size` more bytes, growing the buffer if possible.
+	 * Returns `false` if a fixed target is too small or the buffer would
+	 * exceed `maxLength`.
+	 */
+	tryReserve(size: number): boolean {
+		const required = this.length + size;
+		if (required <= this.bytes.length) return true;
+		if (!this.growable || required > this.maxLength) return false;
+		const bytes = new Uint8Array(
+			Math.min(Math.max(required, this.bytes.length * 2), this.maxLength),
+		);
+		bytes.set(this.bytes.subarray(0, this.length));
+		this.bytes = bytes;
+		this.view = new DataView(bytes.buffer);
+		return true;
+	}
+
+	reserve(size: number): void {
+		if (this.tryReserve(size)) return;
+		throw this.growable
+			? new CBOREncodeError(
+					"LIMIT_EXCEEDED",
+					`Encoded data exceeds maxBytes (${this.maxLength})`,
+				)
+			: new CBOREncodeError(
+					"BUFFER_TOO_SMALL",
+					`Target buffer of ${this.bytes.length} bytes is too small`,
+				);
+	}
+
+	writeByte(byte: number): void {
+		this.reserve(1);
+		this.bytes[this.length++] = byte;
+	}
+
+	writeBytes(bytes: Uint8Array): void {
+		this.reserve(bytes.length);
+		this.bytes.set(bytes, this.length);
+		this.length += bytes.length;
+	}
 
-function encodeNull(buffers: Uint8Array[]): void {
-	buffers.push(new Uint8Array([0xf6]));
+	/** Writes the head of a data item: its major type and argument. */
+	writeHead(majorType: number, argument: number | bigint): void {
+		const size = headSize(argument);
+		this.reserve(size);
+		const initialByte = majorType << 5;
+		const offset = this.length;
+		if (size === 1) {
+			this.bytes[offset] = initialByte | Number(argument);
+		} else if (size === 2) {
+			this.bytes[offset] = initialByte | 24;
+			this.bytes[offset + 1] = Number(argument);
+		} else if (size === 3) {
+			this.bytes[offset] = initialByte | 25;
+			this.view.setUint16(offset + 1, Number(argument), false);
+		} else if (size === 5) {
+			this.bytes[offset] = initialByte | 26;
+			this.view.setUint32(offset + 1, Number(argument), false);
+		} else {
+			this.bytes[offset] = initialByte | 27;
+			this.view.setBigUint64(offset + 1, BigInt(argument), false);
+		}
+		this.length += size;
+	}
+
+	/**
+	 * Returns the bytes written so far once writing is done: the buffer
+	 * itself if they fill a buffer of its own, otherwise a copy.
+	 */
+	toArrayBuffer(): ArrayBuffer {
+		if (this.growable && this.length === this.bytes.byteLength) {
+			return this.bytes.buffer as ArrayBuffer;
+		}
+		return this.bytes.slice(0, this.length).buffer;
+	}
+}
+
+/**
+ * Size of the head encoding `argument` in its shortest form.
+ */
+function headSize(argument: number | bigint): number {
+	if (argument <= 23) return 1;
+	if (argument <= 0xff) return 2;
+	if (argument <= 0xffff) return 3;
+	if (argument <= 0xffffffff) return 5;
+	if (argument <= MAX_UINT64) return 9;
+	throw new CBOREncodeError(
+		"LIMIT_EXCEEDED",
+		"Length too large for CBOR encoding",
+	);
+}
+
+function createEncodeContext(options: CBOREncodeOptions): EncodeContext {
+	if (options.deterministic && options.indefiniteLength) {
+		throw new CBOREncodeError(
+			"INVALID_OPTIONS",
+			"Indefinite-length items are not allowed in deterministic mode",
+		);
+	}
+	const tagHandlers = resolveTagHandlers(options);
+	return {
+		...options,
+		...resolveLimits(options),
+		// Most recently registered handlers are tried first
+		tagEncoders: [...tagHandlers]
+			.filter(([, h]) => h.match && h.encode)
+			.reverse(),
+		depth: 0,
+		items: 0,
+	};
+}
+
+/**
+ * Encodes a top-level value, passing it through the `replacer` option first.
+ */
+function encodeTopLevelValue(
+	value: unknown,
+	output: EncodeBuffer,
+	context: EncodeContext,
+): void {
+	encodeValue(replace({ "": value }, "", value, context), output, context);
+}
+
+function encodeValue(
+	input: unknown,
+	output: EncodeBuffer,
+	context: EncodeContext,
+): void {
+	const value = applyEncodeHooks(input, context);
+	if (++context.items > context.maxTotalItems) {
+		throw new CBOREncodeError(
+			"LIMIT_EXCEEDED",
+			`Number of data items exceeds maxTotalItems (${context.maxTotalItems})`,
+		);
+	}
+	if (typeof value === "number") {
+		if (Object.is(value, -0)) {
+			// -0 is integral but only a float can carry its sign
+			encodeFloat(value, output);
+		} else if (Number.isSafeInteger(value)) {
+			if (value >= 0) encodeUnsignedInteger(value, output);
+			else encodeNegativeInteger(value, output);
+		} else {
+			// Unsafe integers stay floats so that they decode back to a number;
+			// use a bigint to get an integer encoding.
+			encodeFloat(value, output);
+		}
+	} else if (typeof value === "bigint") {
+		encodeBigInt(value, output);
+	} else if (value instanceof ArrayBuffer) {
+		encodeByteString(new Uint8Array(value), output, context);
+	} else if (ArrayBuffer.isView(value)) {
+		encodeArrayBufferView(value, output, context);
+	} else if (typeof value === "string") {
+		encodeTextString(value, output, context);
+	} else if (typeof value === "object" && value !== null) {
+		if (++context.depth > context.maxDepth) {
+			throw new CBOREncodeError(
+				"LIMIT_EXCEEDED",
+				`Nesting depth exceeds maxDepth (${context.maxDepth})`,
+			);
+		}
+		const tagEncoder = context.tagEncoders.find(([, handler]) =>
+			handler.match?.(value),
+		);
+		if (value instanceof CBORTag) {
+			encodeTag(value.tag, value.value, output, context);
+		} else if (value instanceof CBOREncoded) {
+			output.writeHead(6, 24);
+			encodeByteString(new Uint8Array(value.bytes), output, context);
+		} else if (tagEncoder) {
+			const [tag, handler] = tagEncoder;
+			encodeTag(tag, encodeTagContent(tag, handler, value), output, context);
+		} else if (Array.isArray(value)) {
+			encodeArray(value, output, context);
+		} else if (value instanceof Map) {
+			encodeMap(value, [...value], output, context);
+		} else if (hasObjectFields(value)) {
+			encodeMap(value, objectEntries(value), output, context);
+		} else {
+			throw new CBOREncodeError(
+				"UNSUPPORTED_TYPE",
+				`Unsupported object type for CBOR encoding: ${value.constructor?.name ?? "unknown"}`,
+			);
+		}
+		context.depth--;
+	} else if (typeof value === "boolean") {
+		output.writeByte(value ? 0xf5 : 0xf4);
+	} else if (value === null) {
+		output.writeByte(0xf6);
+	} else if (value === undefined) {
+		output.writeByte(0xf7);
+	} else {
+		throw new CBOREncodeError(
+			"UNSUPPORTED_TYPE",
+			`Unsupported value type for CBOR encoding: ${typeof value}`,
+		);
+	}
+}
+
+/**
+ * Replaces objects that have a `[CBOR.encodeSymbol]()` or `toCBOR()` method
+ * with the value it returns, repeatedly if that is such an object too.
+ */
+function applyEncodeHooks(input: unknown, context: EncodeContext): unknown {
+	let value = input;
+	for (let hooks = 0; typeof value === "object" && value !== null; hooks++) {
+		const hook =
+			(value as { [encodeSymbol]?: unknown })[encodeSymbol] ??
+			(value as { toCBOR?: unknown }).toCBOR;
+		if (typeof hook !== "function") break;
+		if (hooks >= context.maxDepth) {
+			throw new CBOREncodeError(
+				"LIMIT_EXCEEDED",
+				`Encoding hooks nest deeper than maxDepth (${context.maxDepth})`,
+			);
+		}
+		const result: unknown = hook.call(value);
+		if (result === value) break;
+		value = result;
+	}
+	return value;
+}
+
+/**
+ * Passes a value about to be encoded at `key` of `holder` through the
+ * `replacer` option, after its encoding hook as `JSON.stringify` does.
+ */
+function replace(
+	holder: unknown,
+	key: CBORValue,
+	value: unknown,
+	context: EncodeContext,
+): unknown {
+	if (!context.replacer) return value;
+	return context.replacer.call(holder, key, applyEncodeHooks(value, context));
+}
+
+/**
+ * Encodes an array element or map value, prefixing the path of any encode
+ * error with the element's index or key.
+ */
+function encodeChild(
+	value: unknown,
+	output: EncodeBuffer,
+	context: EncodeContext,
+	segment: string | number,
+): void {
+	try {
+		encodeValue(value, output, context);
+	} catch (error) {
+		throw prefixPath(error, segment);
+	}
+}
+
+function encodeUnsignedInteger(
+	value: number | bigint,
+	output: EncodeBuffer,
+): void {
+	if (value < 0 || (typeof value === "number" && !Number.isInteger(value))) {
+		throw new CBOREncodeError(
+			"INVALID_INTEGER",
+			"Only unsigned integers are supported",
+		);
+	}
+	output.writeHead(0, value);
+}
+
+function encodeNegativeInteger(
+	value: number | bigint,
+	output: EncodeBuffer,
+): void {
+	if (value >= 0 || (typeof value === "number" && !Number.isInteger(value))) {
+		throw new CBOREncodeError(
+			"INVALID_INTEGER",
+			"Only negative integers are supported",
+		);
+	}
+	output.writeHead(1, typeof value === "bigint" ? -1n - value : -1 - value);
+}
+
+function encodeBigInt(value: bigint, output: EncodeBuffer): void {
+	if (value >= 0n) {
+		if (value <= MAX_UINT64) encodeUnsignedInteger(value, output);
+		else encodeBignum(2, value, output);
+	} else {
+		if (-1n - value <= MAX_UINT64) encodeNegativeInteger(value, output);
+		else encodeBignum(3, -1n - value, output);
+	}
+}
+
+/**
+ * Encodes an integer that does not fit in 64 bits as an unsigned (tag 2) or
+ * negative (tag 3) bignum whose byte string has no leading zero bytes.
+ */
+function encodeBignum(
+	tag: 2 | 3,
+	magnitude: bigint,
+	output: EncodeBuffer,
+): void {
+	const bytes = bignumBytes(magnitude);
+	output.writeHead(6, tag);
+	output.writeHead(2, bytes.length);
+	output.writeBytes(bytes);
+}
+
+function encodeByteString(
+	value: Uint8Array,
+	output: EncodeBuffer,
+	context: EncodeContext,
+): void {
+	checkEncodedStringLength(value.byteLength, context);
+	output.writeHead(2, value.byteLength);
+	output.writeBytes(value);
+}
+
+/**
+ * Encodes a `Uint8Array` or `DataView` as a byte string and other typed
+ * arrays with their RFC 8746 tag.
+ */
+function encodeArrayBufferView(
+	value: ArrayBufferView,
+	output: EncodeBuffer,
+	context: EncodeContext,
+): void {
+	const bytes = new Uint8Array(
+		value.buffer,
+		value.byteOffset,
+		value.byteLength,
+	);
+	const typedArray =
+		value instanceof Uint8Array || value instanceof DataView
+			? undefined
+			: TYPED_ARRAY_TAGS.find(([, type]) => value instanceof type);
+	if (!typedArray) {
+		encodeByteString(bytes, output, context);
+		return;
+	}
+	const [tag, type] = typedArray;
+	const size = type.BYTES_PER_ELEMENT;
+	if (size === 1) {
+		output.writeHead(6, tag);
+		encodeByteString(bytes, output, context);
+		return;
+	}
+	const littleEndian = context.typedArrayEndianness !== "big";
+	output.writeHead(6, littleEndian ? tag + 4 : tag);
+	if (littleEndian === LITTLE_ENDIAN_PLATFORM) {
+		encodeByteString(bytes, output, context);
+	} else {
+		const swapped = bytes.slice();
+		swapBytes(swapped, size);
+		encodeByteString(swapped, output, context);
+	}
+}
+
+function encodeTextString(
+	value: string,
+	output: EncodeBuffer,
+	context: EncodeContext,
+): void {
+	// Encode after the largest possible head, then move the text if the
+	// actual head turns out shorter. A UTF-16 code unit takes at most 3 bytes
+	// in UTF-8, but room for more than one is only made once the text turns
+	// out not to be ASCII.
+	const headOffset = output.length;
+	const maxHeadSize = headSize(value.length * 3);
+	const start = headOffset + maxHeadSize;
+	let read = 0;
+	let written = 0;
+	if (output.tryReserve(maxHeadSize + value.length)) {
+		({ read, written } = textEncoder.encodeInto(
+			value,
+			output.bytes.subarray(start),
+		));
+		if (read < value.length) {
+			// Keep the text written so far when the buffer grows
+			output.length = start + written;
+			const grown = output.tryReserve((value.length - read) * 3);
+			output.length = headOffset;
+			if (grown) {
+				const rest = textEncoder.encodeInto(
+					value.slice(read),
+					output.bytes.subarray(start + written),
+				);
+				read += rest.read;
+				written += rest.written;
+			}
+		}
+	}
+	if (read < value.length) {
+		// A fixed target may still fit the exact encoding
+		const bytes = textEncoder.encode(value);
+		checkEncodedStringLength(bytes.length, context);
+		output.writeHead(3, bytes.length);
+		output.writeBytes(bytes);
+		return;
+	}
+	checkEncodedStringLength(written, context);
+	const textOffset = headOffset + headSize(written);
+	if (textOffset !== start) {
+		output.bytes.copyWithin(textOffset, start, start + written);
+	}
+	output.writeHead(3, written);
+	output.length += written;
+}
+
+function checkEncodedStringLength(
+	length: number,
+	context: EncodeContext,
+): void {
+	if (length > context.maxStringLength) {
+		throw new CBOREncodeError(
+			"LIMIT_EXCEEDED",
+			`String length ${length} exceeds maxStringLength (${context.maxStringLength})`,
+		);
+	}
+}
+
+function encodeArray(
+	value: unknown[],
+	output: EncodeBuffer,
+	context: EncodeContext,
+): void {
+	if (value.length > context.maxContainerItems) {
+		throw new CBOREncodeError(
+			"LIMIT_EXCEEDED",
+			`Array length ${value.length} exceeds maxContainerItems (${context.maxContainerItems})`,
+		);
+	}
+	if (context.indefiniteLength) {
+		output.writeByte((4 << 5) | INDEFINITE_LENGTH);
+	} else {
+		output.writeHead(4, value.length);
+	}
+	for (let i = 0; i < value.length; i++) {
+		encodeChild(replace(value, i, value[i], context), output, context, i);
+	}
+	if (context.indefiniteLength) output.writeByte(BREAK);
+}
+
+function encodeMap(
+	holder: object,
+	entries: [unknown, unknown][],
+	output: EncodeBuffer,
+	context: EncodeContext,
+): void {
+	if (entries.length > context.maxContainerItems) {
+		throw new CBOREncodeError(
+			"LIMIT_EXCEEDED",
+			`Map size ${entries.length} exceeds maxContainerItems (${context.maxContainerItems})`,
+		);
+	}
+	const { deterministic } = context;
+	if (deterministic) {
+		// Encode the keys in place to sort them by their bytes, then rewind
+		const start = output.length;
+		const encodedEntries = entries.map(([key, value], index) => {
+			const segment = mapKeySegment(key, index);
+			encodeChild(key, output, context, segment);
+			const encodedKey = output.bytes.slice(start, output.length);
+			output.length = start;
+			return { key, segment, encodedKey, value };
+		});
+		encodedEntries.sort((a, b) =>
+			compareEncodedKeys(a.encodedKey, b.encodedKey, deterministic),
+		);
+		for (let i = 1; i < encodedEntries.length; i++) {
+			const { encodedKey, segment } = encodedEntries[i];
+			if (
+				compareEncodedKeys(
+					encodedEntries[i - 1].encodedKey,
+					encodedKey,
+					deterministic,
+				) === 0
+			) {
+				throw new CBOREncodeError(
+					"DUPLICATE_MAP_KEY",
+					"Map keys encode to the same bytes",
+					`/${escapePathSegment(segment)}`,
+				);
+			}
+		}
+		output.writeHead(5, entries.length);
+		for (const entry of encodedEntries) {
+			output.writeBytes(entry.encodedKey);
+			encodeChild(
+				replace(holder, entry.key as CBORValue, entry.value, context),
+				output,
+				context,
+				entry.segment,
+			);
+		}
+		return;
+	}
+	if (context.indefiniteLength) {
+		output.writeByte((5 << 5) | INDEFINITE_LENGTH);
+	} else {
+		output.writeHead(5, entries.length);
+	}
+	for (let i = 0; i < entries.length; i++) {
+		const [key, value] = entries[i];
+		const segment = mapKeySegment(key, i);
+		encodeChild(key, output, context, segment);
+		encodeChild(
+			replace(holder, key as CBORValue, value, context),
+			output,
+			context,
+			segment,
+		);
+	}
+	if (context.indefiniteLength) output.writeByte(BREAK);
+}
+
+/**
+ * Whether an object is encoded as a map of its own enumerable fields: plain
+ * objects and class instances, from any realm, and other objects that have
+ * such fields. Built-in objects without any, e.g. a `Date` with
+ * `builtinTags: false`, would otherwise become empty maps.
+ */
+function hasObjectFields(value: object): boolean {
+	return (
+		Object.prototype.toString.call(value) === "[object Object]" ||
+		Object.keys(value).length > 0
+	);
+}
+
+/**
+ * Lists the entries of a plain object in encoding order. Object keys are
+ * always strings; integer-like ones (e.g. COSE labels) are written back as
+ * CBOR integers.
+ */
+function objectEntries(value: object): [unknown, unknown][] {
+	return Object.entries(value)
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+		.map(([key, val]) => [objectKey(key), val]);
+}
+
+/**
+ * Orders two encoded map keys according to the deterministic encoding mode.
+ */
+function compareEncodedKeys(
+	a: Uint8Array,
+	b: Uint8Array,
+	mode: CBORDeterministicMode,
+): number {
+	if (mode === "length-first" && a.length !== b.length) {
+		return a.length - b.length;
+	}
+	const length = Math.min(a.length, b.length);
+	for (let i = 0; i < length; i++) {
+		if (a[i] !== b[i]) return a[i] - b[i];
+	}
+	return a.length - b.length;
+}
+
+/**
+ * Runs a tag handler's `encode`, reporting its failures as encode errors.
+ */
+function encodeTagContent(
+	tag: number,
+	handler: CBORTagHandler,
+	value: unknown,
+): unknown {
+	try {
+		return handler.encode?.(value);
+	} catch (error) {
+		if (error instanceof CBOREncodeError) throw error;
+		throw new CBOREncodeError(
+			"INVALID_TAG_CONTENT",
+			`Cannot encode value for tag ${tag}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
+
+function encodeTag(
+	tag: number,
+	value: unknown,
+	output: EncodeBuffer,
+	context: EncodeContext,
+): void {
+	if (!Number.isInteger(tag) || tag < 0) {
+		throw new CBOREncodeError(
+			"INVALID_TAG",
+			"Tag must be a non-negative integer",
+		);
+	}
+	output.writeHead(6, tag);
+	encodeValue(value, output, context);
+}
+
+/**
+ * Encodes a float using the shortest of binary16, binary32 and binary64 that
+ * preserves its value (preferred serialization, RFC 8949 §4.1).
+ */
+function encodeFloat(value: number, output: EncodeBuffer): void {
+	const half = toFloat16(value);
+	if (half !== undefined) {
+		output.reserve(3);
+		output.bytes[output.length] = 0xf9;
+		output.view.setUint16(output.length + 1, half, false);
+		output.length += 3;
+	} else if (Math.fround(value) === value) {
+		output.reserve(5);
+		output.bytes[output.length] = 0xfa;
+		output.view.setFloat32(output.length + 1, value, false);
+		output.length += 5;
+	} else {
+		output.reserve(9);
+		output.bytes[output.length] = 0xfb;
+		output.view.setFloat64(output.length + 1, value, false);
+		output.length += 9;
+	}
+}
+
+//
+// --- Diagnostic Notation ---
+//
+
+type DiagnosticContext = Required<CBOROptions> & {
+	encodingIndicators: boolean;
+	depth: number;
+	items: number;
+};
+
+function createDiagnosticContext(
+	options: CBORDiagnosticOptions,
+	byteLength: number,
+): DiagnosticContext {
+	const context = {
+		...resolveLimits(options),
+		encodingIndicators: options.encodingIndicators ?? false,
+		depth: 0,
+		items: 0,
+	};
+	if (byteLength > context.maxBytes) {
+		throw new CBORDecodeError(
+			"LIMIT_EXCEEDED",
+			`Buffer of ${byteLength} bytes exceeds maxBytes (${context.maxBytes})`,
+			0,
+		);
+	}
+	return context;
+}
+
+/**
+ * Prints the data item at `startOffset`, checking well-formedness and limits
+ * like `decodeFirstItem`.
+ */
+function diagnoseItem(
+	bytes: Uint8Array,
+	dataView: DataView,
+	startOffset: number,
+	context: DiagnosticContext,
+): [string, number] {
+	if (startOffset >= bytes.byteLength) {
+		throw new CBORDecodeError(
+			"UNEXPECTED_END",
+			"Buffer too short for CBOR decoding",
+			startOffset,
+		);
+	}
+	if (++context.items > context.maxTotalItems) {
+		throw new CBORDecodeError(
+			"LIMIT_EXCEEDED",
+			`Number of data items exceeds maxTotalItems (${context.maxTotalItems})`,
+			startOffset,
+		);
+	}
+	const firstByte = dataView.getUint8(startOffset);
+	const majorType = firstByte >> 5;
+	const additionalInfo = firstByte & 0x1f;
+	const offset = startOffset + 1;
+	if (additionalInfo >= 28 && additionalInfo <= 30) {
+		throw new CBORDecodeError(
+			"RESERVED_ADDITIONAL_INFO",
+			`Reserved additional info ${additionalInfo} is not well-formed`,
+			startOffset,
+		);
+	}
+	if (
+		additionalInfo === INDEFINITE_LENGTH &&
+		(majorType <= 1 || majorType === 6)
+	) {
+		throw new CBORDecodeError(
+			"INVALID_ADDITIONAL_INFO",
+			`Indefinite length is not allowed for major type ${majorType}`,
+			startOffset,
+		);
+	}
+	const indicator = encodingIndicator(additionalInfo, context);
+
+	switch (majorType) {
+		case 0:
+		case 1: {
+			const [argument, newOffset] = readArgument(
+				dataView,
+				offset,
+				additionalInfo,
+			);
+			const value = majorType === 0 ? argument : -1n - argument;
+			return [`${value}${indicator}`, newOffset];
+		}
+		case 2:
+		case 3:
+			return diagnoseString(
+				bytes,
+				dataView,
+				offset,
+				majorType,
+				additionalInfo,
+				context,
+			);
+		case 4:
+		case 5:
+		case 6: {
+			if (++context.depth > context.maxDepth) {
+				throw new CBORDecodeError(
+					"LIMIT_EXCEEDED",
+					`Nesting depth exceeds maxDepth (${context.maxDepth})`,
+					startOffset,
+				);
+			}
+			let result: [string, number];
+			if (majorType === 6) {
+				const [tag, contentOffset] = readArgument(
+					dataView,
+					offset,
+					additionalInfo,
+				);
+				const [content, endOffset] = diagnoseItem(
+					bytes,
+					dataView,
+					contentOffset,
+					context,
+				);
+				result = [`${tag}${indicator}(${content})`, endOffset];
+			} else {
+				result = diagnoseContainer(
+					bytes,
+					dataView,
+					offset,
+					majorType,
+					additionalInfo,
+					context,
+				);
+			}
+			context.depth--;
+			return result;
+		}
+		default:
+			return diagnoseSpecial(dataView, offset, additionalInfo, indicator);
+	}
+}
+
+/**
+ * The encoding indicator (RFC 8949 §8.1) for an item head: `_0` to `_3` for
+ * a 1- to 8-byte argument, `_` for an indefinite length.
+ */
+function encodingIndicator(
+	additionalInfo: number,
+	context: DiagnosticContext,
+): string {
+	if (!context.encodingIndicators) return "";
+	if (additionalInfo === INDEFINITE_LENGTH) return "_";
+	return additionalInfo >= 24 ? `_${additionalInfo - 24}` : "";
+}
+
+function diagnoseString(
+	bytes: Uint8Array,
+	dataView: DataView,
+	offset: number,
+	majorType: number,
+	additionalInfo: number,
+	context: DiagnosticContext,
+): [string, number] {
+	const print = (content: Uint8Array, contentOffset: number) =>
+		majorType === 2
+			? `h'${toHexString(content)}'`
+			: JSON.stringify(decodeUtf8(content, contentOffset));
+	if (additionalInfo !== INDEFINITE_LENGTH) {
+		const [length, newOffset] = readLength(dataView, offset, additionalInfo);
+		checkStringLength(length, context, offset - 1);
+		ensureBytes(dataView, newOffset, length);
+		const content = bytes.subarray(newOffset, newOffset + length);
+		return [
+			print(content, newOffset) + encodingIndicator(additionalInfo, context),
+			newOffset + length,
+		];
+	}
+	const [chunks, endOffset] = readChunks(
+		bytes,
+		dataView,
+		offset,
+		majorType,
+		context,
+	);
+	if (!context.encodingIndicators) {
+		if (majorType === 2) {
+			return [print(new Uint8Array(concatenateBuffers(chunks)), 0), endOffset];
+		}
+		const text = chunks
+			.map((chunk) => decodeUtf8(chunk, chunk.byteOffset - bytes.byteOffset))
+			.join("");
+		return [JSON.stringify(text), endOffset];
+	}
+	if (chunks.length === 0) return [majorType === 2 ? "''_" : '""_', endOffset];
+	// Re-read each chunk head for its own encoding indicator
+	const parts: string[] = [];
+	let chunkOffset = offset;
+	while (chunkOffset < endOffset - 1) {
+		const [part, nextOffset] = diagnoseString(
+			bytes,
+			dataView,
+			chunkOffset + 1,
+			majorType,
+			dataView.getUint8(chunkOffset) & 0x1f,
+			context,
+		);
+		parts.push(part);
+		chunkOffset = nextOffset;
+	}
+	return [`(_ ${parts.join(", ")})`, endOffset];
+}
+
+function diagnoseContainer(
+	bytes: Uint8Array,
+	dataView: DataView,
+	offset: number,
+	majorType: number,
+	additionalInfo: number,
+	context: DiagnosticContext,
+): [string, number] {
+	const perItem = majorType === 4 ? 1 : 2;
+	const indefinite = additionalInfo === INDEFINITE_LENGTH;
+	let length = Number.POSITIVE_INFINITY;
+	let currentOffset = offset;
+	if (!indefinite) {
+		[length, currentOffset] = readLength(dataView, offset, additionalInfo);
+	}
+	const parts: string[] = [];
+	for (let i = 0; i < length; i++) {
+		if (indefinite && isBreak(dataView, currentOffset)) {
+			currentOffset++;
+			break;
+		}
+		if (i >= context.maxContainerItems) {
+			throw new CBORDecodeError(
+				"LIMIT_EXCEEDED",
+				`${majorType === 4 ? "Array" : "Map"} length exceeds maxContainerItems (${context.maxContainerItems})`,
+				offset - 1,
+			);
+		}
+		const entry: string[] = [];
+		for (let j = 0; j < perItem; j++) {
+			const [part, nextOffset] = diagnoseItem(
+				bytes,
+				dataView,
+				currentOffset,
+				context,
+			);
+			entry.push(part);
+			currentOffset = nextOffset;
+		}
+		parts.push(entry.join(": "));
+	}
+	const indicator = encodingIndicator(additionalInfo, context);
+	const prefix = indicator && `${indicator} `;
+	const [open, close] = majorType === 4 ? ["[", "]"] : ["{", "}"];
+	return [`${open}${prefix}${parts.join(", ")}${close}`, currentOffset];
+}
+
+function diagnoseSpecial(
+	dataView: DataView,
+	offset: number,
+	additionalInfo: number,
+	indicator: string,
+): [string, number] {
+	if (additionalInfo < 20) return [`simple(${additionalInfo})`, offset];
+	switch (additionalInfo) {
+		case 20:
+			return ["false", offset];
+		case 21:
+			return ["true", offset];
+		case 22:
+			return ["null", offset];
+		case 23:
+			return ["undefined", offset];
+		case 24: {
+			ensureBytes(dataView, offset, 1);
+			const simpleValue = dataView.getUint8(offset);
+			if (simpleValue < 32) {
+				throw new CBORDecodeError(
+					"INVALID_SIMPLE_VALUE",
+					`Two-byte simple value ${simpleValue} below 32 is not well-formed`,
+					offset - 1,
+				);
+			}
+			return [`simple(${simpleValue})`, offset + 1];
+		}
+		case INDEFINITE_LENGTH:
+			throw new CBORDecodeError(
+				"UNEXPECTED_BREAK",
+				"Unexpected break code outside indefinite-length item",
+				offset - 1,
+			);
+		default: {
+			const [value, newOffset] = decodeSpecial(
+				dataView,
+				offset,
+				additionalInfo,
+			);
+			return [formatFloat(value as number) + indicator, newOffset];
+		}
+	}
+}
+
+/**
+ * Formats a float so that it reads back as one: integral values get a
+ * fraction (`1.0`, `1.0e+300`) and non-finite values are spelled out.
+ */
+function formatFloat(value: number): string {
+	if (Number.isNaN(value)) return "NaN";
+	if (!Number.isFinite(value)) return value > 0 ? "Infinity" : "-Infinity";
+	if (Object.is(value, -0)) return "-0.0";
+	const text = String(value);
+	if (text.includes(".")) return text;
+	const exponent = text.indexOf("e");
+	return exponent === -1
+		? `${text}.0`
+		: `${text.slice(0, exponent)}.0${text.slice(exponent)}`;
+}
+
+interface DiagnosticParser {
+	text: string;
+	offset: number;
+	maxBytes: number;
+	maxDepth: number;
+	depth: number;
+}
+
+function diagnosticSyntaxError(
+	parser: DiagnosticParser,
+	reason: string,
+): SyntaxError {
+	return new SyntaxError(
+		`${reason} at position ${parser.offset} of diagnostic notation`,
+	);
+}
+
+/** Skips whitespace, `/ block comments /` and `# line comments`. */
+function skipDiagnosticSpace(parser: DiagnosticParser): void {
+	const pattern = /(?:\s+|\/[^/]*\/|#[^\n]*)*/y;
+	pattern.lastIndex = parser.offset;
+	pattern.exec(parser.text);
+	if (parser.text[pattern.lastIndex] === "/") {
+		parser.offset = pattern.lastIndex;
+		throw diagnosticSyntaxError(parser, "Unterminated comment");
+	}
+	parser.offset = pattern.lastIndex;
+}
+
+function expectDiagnostic(parser: DiagnosticParser, token: string): void {
+	if (!parser.text.startsWith(token, parser.offset)) {
+		throw diagnosticSyntaxError(
+			parser,
+			parser.offset < parser.text.length
+				? `Expected "${token}" but found "${parser.text[parser.offset]}"`
+				: `Expected "${token}" but reached the end`,
+		);
+	}
+	parser.offset += token.length;
+}
+
+/**
+ * Reads `pattern` at the current position, returning the match or
+ * `undefined`.
+ */
+function matchDiagnostic(
+	parser: DiagnosticParser,
+	pattern: RegExp,
+): RegExpExecArray | undefined {
+	const sticky = new RegExp(pattern.source, "y");
+	sticky.lastIndex = parser.offset;
+	const match = sticky.exec(parser.text);
+	if (!match) return undefined;
+	parser.offset = sticky.lastIndex;
+	return match;
+}
+
+/**
+ * Reads an optional encoding indicator: a width (0 to 3) for `_0` to `_3`,
+ * `"indefinite"` for a bare `_`, or `undefined` if there is none.
+ */
+function parseEncodingIndicator(
+	parser: DiagnosticParser,
+): number | "indefinite" | undefined {
+	const match = matchDiagnostic(parser, /_([0-3])?(?![0-9A-Za-z_])/);
+	if (!match) return undefined;
+	return match[1] === undefined ? "indefinite" : Number(match[1]);
+}
+
+/**
+ * Writes an item head with the shortest argument, or with the argument size
+ * given by an encoding indicator.
+ */
+function writeDiagnosticHead(
+	parser: DiagnosticParser,
+	output: EncodeBuffer,
+	majorType: number,
+	argument: bigint,
+	indicator: number | "indefinite" | undefined,
+): void {
+	if (indicator === "indefinite") {
+		throw diagnosticSyntaxError(parser, "Unexpected indefinite-length marker");
+	}
+	if (indicator === undefined) {
+		if (argument > MAX_UINT64) {
+			throw diagnosticSyntaxError(parser, "Argument too large for CBOR");
+		}
+		output.writeHead(majorType, argument);
+		return;
+	}
+	const size = 2 ** indicator;
+	if (argument >= 1n << BigInt(size * 8)) {
+		throw diagnosticSyntaxError(
+			parser,
+			`Argument ${argument} does not fit encoding indicator _${indicator}`,
+		);
+	}
+	output.reserve(size + 1);
+	output.bytes[output.length++] = (majorType << 5) | (24 + indicator);
+	for (let i = size - 1; i >= 0; i--) {
+		output.bytes[output.length++] = Number((argument >> BigInt(i * 8)) & 0xffn);
+	}
+}
+
+function enterDiagnosticContainer(parser: DiagnosticParser): void {
+	if (++parser.depth > parser.maxDepth) {
+		throw new CBOREncodeError(
+			"LIMIT_EXCEEDED",
+			`Nesting depth exceeds maxDepth (${parser.maxDepth})`,
+		);
+	}
+}
+
+function parseDiagnosticItem(
+	parser: DiagnosticParser,
+	output: EncodeBuffer,
+): void {
+	skipDiagnosticSpace(parser);
+	const char = parser.text[parser.offset];
+	if (char === "[" || char === "{") {
+		enterDiagnosticContainer(parser);
+		parseDiagnosticContainer(parser, output);
+		parser.depth--;
+		return;
+	}
+	if (char === "(") {
+		parseIndefiniteString(parser, output);
+		return;
+	}
+	if (parseDiagnosticString(parser, output) !== undefined) return;
+
+	const keyword = matchDiagnostic(
+		parser,
+		/(false|true|null|undefined)(?![0-9A-Za-z_])/,
+	);
+	if (keyword) {
+		output.writeByte(
+			0xe0 | (20 + ["false", "true", "null", "undefined"].indexOf(keyword[1])),
+		);
+		return;
+	}
+	if (matchDiagnostic(parser, /simple\(/)) {
+		skipDiagnosticSpace(parser);
+		const value = matchDiagnostic(parser, /[0-9]+/);
+		if (
+			!value ||
+			Number(value[0]) > 255 ||
+			(+value[0] >= 24 && +value[0] < 32)
+		) {
+			throw diagnosticSyntaxError(parser, "Invalid simple value");
+		}
+		skipDiagnosticSpace(parser);
+		expectDiagnostic(parser, ")");
+		writeDiagnosticHead(parser, output, 7, BigInt(value[0]), undefined);
+		return;
+	}
+
+	const number = matchDiagnostic(
+		parser,
+		/(-)?(?:(0x[0-9a-fA-F]+|0o[0-7]+|0b[01]+|[0-9]+)(?![.eE0-9])|([0-9]+(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?|Infinity)|NaN)/,
+	);
+	if (!number) {
+		throw diagnosticSyntaxError(
+			parser,
+			parser.offset < parser.text.length
+				? `Unexpected "${char}"`
+				: "Unexpected end",
+		);
+	}
+	const [, sign, integer, decimal] = number;
+	const indicator = parseEncodingIndicator(parser);
+	if (integer === undefined) {
+		const value = Number(`${sign ?? ""}${decimal ?? "NaN"}`);
+		writeDiagnosticFloat(parser, output, value, indicator);
+		return;
+	}
+	const magnitude = BigInt(integer);
+	skipDiagnosticSpace(parser);
+	if (parser.text[parser.offset] === "(" && !sign) {
+		parser.offset++;
+		writeDiagnosticHead(parser, output, 6, magnitude, indicator);
+		enterDiagnosticContainer(parser);
+		parseDiagnosticItem(parser, output);
+		parser.depth--;
+		skipDiagnosticSpace(parser);
+		expectDiagnostic(parser, ")");
+		return;
+	}
+	if (indicator === undefined && magnitude > MAX_UINT64) {
+		encodeBigInt(sign ? -magnitude : magnitude, output);
+	} else if (sign && magnitude > 0n) {
+		writeDiagnosticHead(parser, output, 1, magnitude - 1n, indicator);
+	} else {
+		writeDiagnosticHead(parser, output, 0, magnitude, indicator);
+	}
+}
+
+function writeDiagnosticFloat(
+	parser: DiagnosticParser,
+	output: EncodeBuffer,
+	value: number,
+	indicator: number | "indefinite" | undefined,
+): void {
+	if (indicator === undefined) {
+		encodeFloat(value, output);
+		return;
+	}
+	const half = toFloat16(value);
+	if (
+		indicator === "indefinite" ||
+		indicator === 0 ||
+		(indicator === 1 && half === undefined) ||
+		(indicator === 2 && !Number.isNaN(value) && Math.fround(value) !== value)
+	) {
+		throw diagnosticSyntaxError(
+			parser,
+			`Float ${value} does not fit its encoding indicator`,
+		);
+	}
+	const size = 2 ** indicator;
+	output.reserve(size + 1);
+	output.bytes[output.length] = 0xe0 | (24 + indicator);
+	if (indicator === 1) {
+		output.view.setUint16(output.length + 1, half as number, false);
+	} else if (indicator === 2) {
+		output.view.setFloat32(output.length + 1, value, false);
+	} else {
+		output.view.setFloat64(output.length + 1, value, false);
+	}
+	output.length += size + 1;
+}
+
+/**
+ * Parses a byte or text string literal if there is one, returning its major
+ * type. An empty literal followed by `_` is an empty indefinite-length
+ * string.
+ */
+function parseDiagnosticString(
+	parser: DiagnosticParser,
+	output: EncodeBuffer,
+): 2 | 3 | undefined {
+	const start = parser.offset;
+	let majorType: 2 | 3;
+	let content: Uint8Array;
+	const text = matchDiagnostic(parser, /"(?:[^"\\]|\\.)*"/);
+	const literal = text
+		? undefined
+		: matchDiagnostic(parser, /(h|b64)?'([^']*)'/);
+	if (text) {
+		majorType = 3;
+		try {
+			content = textEncoder.encode(JSON.parse(text[0]));
+		} catch {
+			parser.offset = start;
+			throw diagnosticSyntaxError(parser, "Invalid text string");
+		}
+	} else if (literal) {
+		majorType = 2;
+		const [, prefix, body] = literal;
+		if (prefix === "h") {
+			// Hex strings may contain comments (RFC 8610 Appendix G.4)
+			const hex = body.replace(/\s+|\/[^/]*\/|#[^\n]*/g, "");
+			if (!/^(?:[0-9a-fA-F]{2})*$/.test(hex)) {
+				parser.offset = start;
+				throw diagnosticSyntaxError(parser, "Invalid hex byte string");
+			}
+			content = fromHexString(hex);
+		} else if (prefix === "b64") {
+			try {
+				content = base64Url.decode(body.replace(/\s+|=+$/g, ""));
+			} catch {
+				parser.offset = start;
+				throw diagnosticSyntaxError(parser, "Invalid base64 byte string");
+			}
+		} else {
+			content = textEncoder.encode(body);
+		}
+	} else {
+		return undefined;
+	}
+	const indicator = parseEncodingIndicator(parser);
+	if (indicator === "indefinite" && content.length === 0) {
+		output.writeByte((majorType << 5) | INDEFINITE_LENGTH);
+		output.writeByte(BREAK);
+		return majorType;
+	}
+	writeDiagnosticHead(
+		parser,
+		output,
+		majorType,
+		BigInt(content.length),
+		indicator,
+	);
+	output.writeBytes(content);
+	return majorType;
+}
+
+/** Parses `(_ chunk, ...)`, an indefinite-length byte or text string. */
+function parseIndefiniteString(
+	parser: DiagnosticParser,
+	output: EncodeBuffer,
+): void {
+	expectDiagnostic(parser, "(");
+	skipDiagnosticSpace(parser);
+	expectDiagnostic(parser, "_");
+	const start = output.length;
+	output.writeByte(0);
+	let majorType: 2 | 3 | undefined;
+	do {
+		skipDiagnosticSpace(parser);
+		const chunkOffset = parser.offset;
+		const chunkType = parseDiagnosticString(parser, output);
+		if (
+			chunkType === undefined ||
+			(majorType !== undefined && chunkType !== majorType)
+		) {
+			parser.offset = chunkOffset;
+			throw diagnosticSyntaxError(
+				parser,
+				"Expected a string chunk of the same type",
+			);
+		}
+		majorType = chunkType;
+		skipDiagnosticSpace(parser);
+	} while (matchDiagnostic(parser, /,/));
+	expectDiagnostic(parser, ")");
+	output.bytes[start] = (majorType << 5) | INDEFINITE_LENGTH;
+	output.writeByte(BREAK);
+}
+
+function parseDiagnosticContainer(
+	parser: DiagnosticParser,
+	output: EncodeBuffer,
+): void {
+	const isArray = parser.text[parser.offset] === "[";
+	const close = isArray ? "]" : "}";
+	parser.offset++;
+	skipDiagnosticSpace(parser);
+	const indicator = parseEncodingIndicator(parser);
+	// Items go to a separate buffer until their number is known
+	const items =
+		indicator === "indefinite" ? output : new EncodeBuffer(parser.maxBytes);
+	if (indicator === "indefinite") output.writeByte(isArray ? 0x9f : 0xbf);
+	let count = 0;
+	skipDiagnosticSpace(parser);
+	if (!matchDiagnostic(parser, isArray ? /]/ : /}/)) {
+		do {
+			parseDiagnosticItem(parser, items);
+			skipDiagnosticSpace(parser);
+			if (!isArray) {
+				expectDiagnostic(parser, ":");
+				parseDiagnosticItem(parser, items);
+				skipDiagnosticSpace(parser);
+			}
+			count++;
+		} while (matchDiagnostic(parser, /,/));
+		expectDiagnostic(parser, close);
+	}
+	if (indicator === "indefinite") {
+		output.writeByte(BREAK);
+		return;
+	}
+	writeDiagnosticHead(
+		parser,
+		output,
+		isArray ? 4 : 5,
+		BigInt(count),
+		indicator,
+	);
+	output.writeBytes(items.bytes.subarray(0, items.length));
+}
+
+//
+// --- Annotated Hex Dump ---
+//
+
+interface AnnotatedLine {
+	offset: number;
+	/** Major type and additional info, for item heads */
+	head?: [number, number];
+	depth: number;
+	bytes: Uint8Array;
+	meaning: string;
+}
+
+type AnnotateContext = DiagnosticContext & { lines: AnnotatedLine[] };
+
+/** Number of payload bytes shown per line */
+const ANNOTATED_BYTES_PER_LINE = 16;
+
+/**
+ * Annotates the data item at `startOffset` and returns the offset after it,
+ * checking well-formedness and limits like `decodeFirstItem`.
+ */
+function annotateItem(
+	bytes: Uint8Array,
+	dataView: DataView,
+	startOffset: number,
+	context: AnnotateContext,
+): number {
+	if (startOffset >= bytes.byteLength) {
+		throw new CBORDecodeError(
+			"UNEXPECTED_END",
+			"Buffer too short for CBOR decoding",
+			startOffset,
+		);
+	}
+	if (++context.items > context.maxTotalItems) {
+		throw new CBORDecodeError(
+			"LIMIT_EXCEEDED",
+			`Number of data items exceeds maxTotalItems (${context.maxTotalItems})`,
+			startOffset,
+		);
+	}
+	const firstByte = dataView.getUint8(startOffset);
+	const majorType = firstByte >> 5;
+	const additionalInfo = firstByte & 0x1f;
+	const offset = startOffset + 1;
+	if (additionalInfo >= 28 && additionalInfo <= 30) {
+		throw new CBORDecodeError(
+			"RESERVED_ADDITIONAL_INFO",
+			`Reserved additional info ${additionalInfo} is not well-formed`,
+			startOffset,
+		);
+	}
+	if (
+		additionalInfo === INDEFINITE_LENGTH &&
+		(majorType <= 1 || majorType === 6)
+	) {
+		throw new CBORDecodeError(
+			"INVALID_ADDITIONAL_INFO",
+			`Indefinite length is not allowed for major type ${majorType}`,
+			startOffset,
+		);
+	}
+
+	switch (majorType) {
+		case 0:
+		case 1: {
+			const [argument, newOffset] = readArgument(
+				dataView,
+				offset,
+				additionalInfo,
+			);
+			const meaning =
+				majorType === 0
+					? `unsigned(${argument})`
+					: `negative(${-1n - argument})`;
+			annotateHead(bytes, dataView, startOffset, newOffset, meaning, context);
+			return newOffset;
+		}
+		case 2:
+		case 3:
+			return annotateString(bytes, dataView, startOffset, context);
+		case 4:
+		case 5:
+			return annotateContainer(bytes, dataView, startOffset, context);
+		case 6: {
+			const [tag, contentOffset] = readArgument(
+				dataView,
+				offset,
+				additionalInfo,
+			);
+			annotateHead(
+				bytes,
+				dataView,
+				startOffset,
+				contentOffset,
+				`tag(${tag})`,
+				context,
+			);
+			enterAnnotatedItem(startOffset, context);
+			const endOffset = annotateItem(bytes, dataView, contentOffset, context);
+			context.depth--;
+			return endOffset;
+		}
+		default: {
+			const [meaning, endOffset] = diagnoseSpecial(
+				dataView,
+				offset,
+				additionalInfo,
+				"",
+			);
+			annotateHead(
+				bytes,
+				dataView,
+				startOffset,
+				endOffset,
+				additionalInfo >= 25 ? `float(${meaning})` : meaning,
+				context,
+			);
+			return endOffset;
+		}
+	}
+}
+
+/** Descends into the content of an array, map or tag. */
+function enterAnnotatedItem(offset: number, context: AnnotateContext): void {
+	if (++context.depth > context.maxDepth) {
+		throw new CBORDecodeError(
+			"LIMIT_EXCEEDED",
+			`Nesting depth exceeds maxDepth (${context.maxDepth})`,
+			offset,
+		);
+	}
+}
+
+/**
+ * Records the head of an item from `offset` to `endOffset`, noting when its
+ * argument or float is not in the shortest form (RFC 8949 §4.1).
+ */
+function annotateHead(
+	bytes: Uint8Array,
+	dataView: DataView,
+	offset: number,
+	endOffset: number,
+	meaning: string,
+	context: AnnotateContext,
+): void {
+	const majorType = bytes[offset] >> 5;
+	const additionalInfo = bytes[offset] & 0x1f;
+	let note = "";
+	if (additionalInfo !== INDEFINITE_LENGTH) {
+		try {
+			checkDeterministicHead(dataView, offset + 1, majorType, additionalInfo);
+		} catch {
+			note = ", not preferred";
+		}
+	}
+	context.lines.push({
+		offset,
+		head: [majorType, additionalInfo],
+		depth: context.depth,
+		bytes: bytes.subarray(offset, endOffset),
+		meaning: meaning + note,
+	});
+}
+
+function annotateString(
+	bytes: Uint8Array,
+	dataView: DataView,
+	startOffset: number,
+	context: AnnotateContext,
+): number {
+	const majorType = bytes[startOffset] >> 5;
+	const additionalInfo = bytes[startOffset] & 0x1f;
+	const name = majorType === 2 ? "bytes" : "text";
+	if (additionalInfo === INDEFINITE_LENGTH) {
+		annotateHead(
+			bytes,
+			dataView,
+			startOffset,
+			startOffset + 1,
+			`${name}(*)`,
+			context,
+		);
+		context.depth++;
+		let offset = startOffset + 1;
+		while (!isBreak(dataView, offset)) {
+			const chunkHead = dataView.getUint8(offset);
+			if (
+				chunkHead >> 5 !== majorType ||
+				(chunkHead & 0x1f) === INDEFINITE_LENGTH
+			) {
+				throw new CBORDecodeError(
+					"INVALID_CHUNK",
+					"Indefinite-length string chunks must be definite-length strings of the same major type",
+					offset,
+				);
+			}
+			offset = annotateString(bytes, dataView, offset, context);
+		}
+		annotateBreak(bytes, offset, context);
+		context.depth--;
+		return offset + 1;
+	}
+	const [length, contentOffset] = readLength(
+		dataView,
+		startOffset + 1,
+		additionalInfo,
+	);
+	checkStringLength(length, context, startOffset);
+	ensureBytes(dataView, contentOffset, length);
+	annotateHead(
+		bytes,
+		dataView,
+		startOffset,
+		contentOffset,
+		`${name}(${length})`,
+		context,
+	);
+	const content = bytes.subarray(contentOffset, contentOffset + length);
+	const meaning =
+		majorType === 3 ? JSON.stringify(decodeUtf8(content, contentOffset)) : "";
+	for (let i = 0; i < length; i += ANNOTATED_BYTES_PER_LINE) {
+		context.lines.push({
+			offset: contentOffset + i,
+			depth: context.depth + 1,
+			bytes: content.subarray(i, i + ANNOTATED_BYTES_PER_LINE),
+			meaning: i === 0 ? meaning : "",
+		});
+	}
+	return contentOffset + length;
+}
+
+function annotateContainer(
+	bytes: Uint8Array,
+	dataView: DataView,
+	startOffset: number,
+	context: AnnotateContext,
+): number {
+	const majorType = bytes[startOffset] >> 5;
+	const additionalInfo = bytes[startOffset] & 0x1f;
+	const name = majorType === 4 ? "array" : "map";
+	const indefinite = additionalInfo === INDEFINITE_LENGTH;
+	let length = Number.POSITIVE_INFINITY;
+	let offset = startOffset + 1;
+	if (!indefinite) {
+		[length, offset] = readLength(dataView, offset, additionalInfo);
+	}
+	annotateHead(
+		bytes,
+		dataView,
+		startOffset,
+		offset,
+		`${name}(${indefinite ? "*" : length})`,
+		context,
+	);
+	enterAnnotatedItem(startOffset, context);
+	const itemsPerEntry = majorType === 4 ? 1 : 2;
+	for (let i = 0; i < length; i++) {
+		if (indefinite && isBreak(dataView, offset)) {
+			annotateBreak(bytes, offset, context);
+			context.depth--;
+			return offset + 1;
+		}
+		if (i >= context.maxContainerItems) {
+			throw new CBORDecodeError(
+				"LIMIT_EXCEEDED",
+				`${majorType === 4 ? "Array" : "Map"} length exceeds maxContainerItems (${context.maxContainerItems})`,
+				startOffset,
+			);
+		}
+		for (let j = 0; j < itemsPerEntry; j++) {
+			offset = annotateItem(bytes, dataView, offset, context);
+		}
+	}
+	context.depth--;
+	return offset;
+}
+
+function annotateBreak(
+	bytes: Uint8Array,
+	offset: number,
+	context: AnnotateContext,
+): void {
+	context.lines.push({
+		offset,
+		head: [7, INDEFINITE_LENGTH],
+		depth: context.depth,
+		bytes: bytes.subarray(offset, offset + 1),
+		meaning: "break",
+	});
+}
+
+function formatAnnotations(lines: AnnotatedLine[], byteLength: number): string {
+	const offsetWidth = Math.max(4, byteLength.toString(16).length);
+	const columns = lines.map(
+		(line) => "   ".repeat(line.depth) + toHexString(line.bytes),
+	);
+	const width = Math.max(0, ...columns.map((column) => column.length));
+	return lines
+		.map((line, i) => {
+			const offset = line.offset.toString(16).padStart(offsetWidth, "0");
+			const head = line.head
+				? `${line.head[0]} ${String(line.head[1]).padStart(2)}`
+				: "    ";
+			const meaning = line.meaning && `  # ${line.meaning}`;
+			return `${offset}  ${head}  ${columns[i].padEnd(width)}${meaning}`.trimEnd();
+		})
+		.join("\n");
+}
+
+//
+// --- JSON Conversion ---
+//
+
+type ByteStringEncoding = "base64url" | "base64" | "base16";
+
+/** Expected-encoding tags (RFC 8949 §3.4.5.2) */
+const EXPECTED_ENCODING_TAGS = new Map<number, ByteStringEncoding>([
+	[21, "base64url"],
+	[22, "base64"],
+	[23, "base16"],
+]);
+
+type JSONContext = CBORToJSONOptions & { maxDepth: number; depth: number };
+
+function writeJSON(
+	value: unknown,
+	encoding: ByteStringEncoding,
+	context: JSONContext,
+): string {
+	if (value === null || value === undefined) return "null";
+	switch (typeof value) {
+		case "boolean":
+			return String(value);
+		case "number":
+			return Number.isFinite(value) ? JSON.stringify(value) : "null";
+		case "bigint":
+			if (value > MAX_UINT64) {
+				return JSON.stringify(encodeBytes(bignumBytes(value), encoding));
+			}
+			if (value < -1n - MAX_UINT64) {
+				const magnitude = bignumBytes(-1n - value);
+				return JSON.stringify(`~${encodeBytes(magnitude, encoding)}`);
+			}
+			return value.toString();
+		case "string":
+			return JSON.stringify(value);
+	}
+	if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+		return JSON.stringify(encodeBytes(toBytes(value), encoding));
+	}
+	if (value instanceof Date) return JSON.stringify(value.toISOString());
+	if (value instanceof URL) return JSON.stringify(value.href);
+	if (++context.depth > context.maxDepth) {
+		throw new CBOREncodeError(
+			"LIMIT_EXCEEDED",
+			`Nesting depth exceeds maxDepth (${context.maxDepth})`,
+		);
+	}
+	let json: string;
+	if (value instanceof CBORTag) {
+		json = writeTagJSON(value, encoding, context);
+	} else if (value instanceof CBOREncoded) {
+		json = writeTagJSON(new CBORTag(24, value.bytes), encoding, context);
+	} else if (Array.isArray(value) || value instanceof Set) {
+		const items = [...value].map((item, index) =>
+			writeChildJSON(item, encoding, context, index),
+		);
+		json = `[${items.join(",")}]`;
+	} else if (value instanceof Map) {
+		json = writeObjectJSON([...value], encoding, context);
+	} else if (typeof value === "object") {
+		json = writeObjectJSON(Object.entries(value), encoding, context);
+	} else {
+		throw new CBOREncodeError(
+			"UNSUPPORTED_TYPE",
+			`Unsupported value type for JSON conversion: ${typeof value}`,
+		);
+	}
+	context.depth--;
+	return json;
+}
+
+function writeChildJSON(
+	value: unknown,
+	encoding: ByteStringEncoding,
+	context: JSONContext,
+	segment: string | number,
+): string {
+	try {
+		return writeJSON(value, encoding, context);
+	} catch (error) {
+		throw prefixPath(error, segment);
+	}
+}
+
+function writeTagJSON(
+	tag: CBORTag,
+	encoding: ByteStringEncoding,
+	context: JSONContext,
+): string {
+	const expected = EXPECTED_ENCODING_TAGS.get(tag.tag);
+	if (expected) return writeJSON(tag.value, expected, context);
+	switch (context.unknownTags ?? "content") {
+		case "content":
+			return writeJSON(tag.value, encoding, context);
+		case "object":
+			return `{"tag":${tag.tag},"value":${writeChildJSON(tag.value, encoding, context, "value")}}`;
+		default:
+			throw new CBOREncodeError(
+				"UNSUPPORTED_TYPE",
+				`Tag ${tag.tag} has no JSON representation`,
+			);
+	}
+}
+
+function writeObjectJSON(
+	entries: [unknown, unknown][],
+	encoding: ByteStringEncoding,
+	context: JSONContext,
+): string {
+	const keys = new Set<string>();
+	const members = entries.map(([key, value], index) => {
+		const name = jsonKey(key, encoding, context);
+		if (keys.has(name)) {
+			throw new CBOREncodeError(
+				"DUPLICATE_MAP_KEY",
+				`Map keys collide as JSON member ${JSON.stringify(name)}`,
+				`/${escapePathSegment(mapKeySegment(name, index))}`,
+			);
+		}
+		keys.add(name);
+		return `${JSON.stringify(name)}:${writeChildJSON(value, encoding, context, name)}`;
+	});
+	return `{${members.join(",")}}`;
+}
+
+/** Converts a map key to a JSON member name. */
+function jsonKey(
+	key: unknown,
+	encoding: ByteStringEncoding,
+	context: JSONContext,
+): string {
+	if (typeof key === "string") return key;
+	if (context.mapKeys === "error") {
+		throw new CBOREncodeError(
+			"UNSUPPORTED_MAP_KEY",
+			`Map key ${String(key)} is not a string`,
+		);
+	}
+	switch (typeof key) {
+		case "number":
+		case "bigint":
+		case "boolean":
+		case "undefined":
+			return String(key);
+	}
+	if (key === null) return "null";
+	if (key instanceof ArrayBuffer || ArrayBuffer.isView(key)) {
+		return encodeBytes(toBytes(key), encoding);
+	}
+	return toDiagnostic(key);
 }
 
-function encodeUndefined(buffers: Uint8Array[]): void {
-	buffers.push(new Uint8Array([0xf7]));
+function encodeBytes(bytes: Uint8Array, encoding: ByteStringEncoding): string {
+	if (encoding === "base16") return toHexString(bytes).toUpperCase();
+	const base64url = base64Url.encode(bytes);
+	if (encoding === "base64url") return base64url;
+	return (
+		base64url.replace(/-/g, "+").replace(/_/g, "/") +
+		"=".repeat((4 - (base64url.length % 4)) % 4)
+	);
 }
@@ -0,0 +1,349 @@
+import { describe, expect, test } from "bun:test";
+import { fc } from "fast-check-bun-test";
+
+import { CBOR, CBORTag } from "./cbor";
+import { CDDL, CDDLParseError, CDDLValidationError } from "./cddl";
+import { COSE, COSEAlgorithm, COSEHeader } from "./cose";
+
+const COSE_SIGN1_CDDL = `
+COSE_Sign1_Tagged = #6.18(COSE_Sign1)
+
+COSE_Sign1 = [
+    Headers,
+    payload : bstr / nil,
+    signature : bstr
+]
+
+Headers = (
+    protected : empty_or_serialized_map,
+    unprotected : header_map
+)
+
+empty_or_serialized_map = bstr .cbor header_map / bstr .size 0
+
+header_map = {
+    Generic_Headers,
+    * label => values
+}
+
+Generic_Headers = (
+    ? 1 ^ => int / tstr,  ; algorithm identifier
+    ? 2 ^ => [+label],    ; criticality
+    ? 3 ^ => tstr / int,  ; content type
+    ? 4 ^ => bstr,        ; key identifier
+)
+
+label = int / tstr
+values = any
+`;
+
+describe("CDDL", () => {
+	describe("parse", () => {
+		test("should take the first rule as the root", () => {
+			const schema = CDDL.parse(COSE_SIGN1_CDDL);
+			expect(schema.root).toBe("COSE_Sign1_Tagged");
+			expect(schema.ruleNames).toContain("header_map");
+			expect(schema.ruleNames).toContain("tstr");
+		});
+
+		test("should report syntax errors with line and column", () => {
+			const error = (() => {
+				try {
+					CDDL.parse("a = [int,\n  tstr\nb = uint");
+				} catch (error) {
+					return error as CDDLParseError;
+				}
+			})();
+			expect(error).toBeInstanceOf(CDDLParseError);
+			expect(error?.message).toBe(
+				'Expected "]" but found "b" at line 3, column 1',
+			);
+			expect(error?.line).toBe(3);
+			expect(error?.column).toBe(1);
+		});
+
+		test("should reject undefined rules but allow sockets", () => {
+			expect(() => CDDL.parse("a = [b]")).toThrow(
+				"Undefined rule b at line 1, column 6",
+			);
+			expect(() => CDDL.parse("a = { * $$ext }")).not.toThrow();
+		});
+
+		test("should reject rules that only refer to each other", () => {
+			expect(() => CDDL.parse("a = b\nb = a")).toThrow(
+				"Rule a refers to itself (a -> b -> a) at line 1, column 5",
+			);
+			expect(() => CDDL.parse("a = int / (a .size 2)")).toThrow(
+				"Rule a refers to itself (a -> a)",
+			);
+			expect(() => CDDL.parse("a = c\nb = [a]\nc = b / d\nd = a")).toThrow(
+				"Rule a refers to itself (a -> c -> d -> a)",
+			);
+			const tree = CDDL.parse("tree = leaf / [* tree]\nleaf = int");
+			expect(tree.matches([1, [2, []]])).toBe(true);
+			expect(() => CDDL.parse("a = #6.24(bstr .cbor a)")).not.toThrow();
+		});
+
+		test("should reject redefinitions and unsupported controls", () => {
+			expect(() => CDDL.parse("a = int\na = tstr")).toThrow(
+				"Rule a is already defined",
+			);
+			expect(() => CDDL.parse("a = uint .bits flags")).toThrow(
+				"Unsupported control operator .bits",
+			);
+		});
+	});
+
+	describe("validate", () => {
+		test("should validate prelude types", () => {
+			const schema = CDDL.parse(
+				"a = [uint, nint, bstr, tstr, bool, nil, float, any]",
+			);
+			expect(
+				schema.matches([1, -1, new ArrayBuffer(1), "x", true, null, 1.5, {}]),
+			).toBe(true);
+			expect(() =>
+				schema.validate([1, 1, new ArrayBuffer(1), "x", true, null, 1.5, {}]),
+			).toThrow("Expected nint, got 1 (path /1)");
+		});
+
+		test("should validate literals, ranges and choices", () => {
+			const schema = CDDL.parse(`
+				a = 1 / "one" / h'01'
+				b = 0..10
+				c = 0...10
+				d = 0.5..1.5
+			`);
+			expect(schema.matches(1)).toBe(true);
+			expect(schema.matches("one")).toBe(true);
+			expect(schema.matches(new Uint8Array([1]))).toBe(true);
+			expect(() => schema.validate(2)).toThrow(
+				"Expected 1 / \"one\" / h'01', got 2",
+			);
+			expect(schema.matches(10, "b")).toBe(true);
+			expect(schema.matches(10, "c")).toBe(false);
+			expect(schema.matches(2.5, "b")).toBe(false);
+			expect(schema.matches(1.25, "d")).toBe(true);
+		});
+
+		test("should match array groups with occurrences", () => {
+			const schema = CDDL.parse(`
+				a = [* int, ? tstr]
+				b = [2*3 pair]
+				pair = (int, tstr)
+				c = [+ (x: int, y: int)]
+			`);
+			expect(schema.matches([])).toBe(true);
+			expect(schema.matches([1, 2, "end"])).toBe(true);
+			expect(() => schema.validate([1, "end", 2])).toThrow(
+				"Unexpected array item (path /2)",
+			);
+			expect(schema.matches([1, "a", 2, "b"], "b")).toBe(true);
+			expect(() => schema.validate([1, "a"], "b")).toThrow(
+				"Missing array item int (path /2)",
+			);
+			expect(() => schema.validate([1, "a", 2, 3], "b")).toThrow(
+				"Expected tstr, got 3 (path /3)",
+			);
+			expect(schema.matches([1, 2, 3, 4], "c")).toBe(true);
+			expect(schema.matches([1, 2, 3], "c")).toBe(false);
+		});
+
+		test("should match map groups with keys and occurrences", () => {
+			const schema = CDDL.parse(`
+				person = { name: tstr, ? age: uint, * tstr => any }
+				ids = { + uint => tstr }
+			`);
+			expect(schema.matches({ name: "Ada" })).toBe(true);
+			expect(
+				schema.matches(
+					new Map<string, unknown>([
+						["name", "Ada"],
+						["age", 36],
+					]),
+				),
+			).toBe(true);
+			expect(() => schema.validate({ age: 36 })).toThrow(
+				"Missing map key name",
+			);
+			expect(() => schema.validate({ name: "Ada", age: -1 })).toThrow(
+				"Expected uint, got -1 (path /age)",
+			);
+			expect(() => schema.validate({ name: "Ada", 1: 2 })).toThrow(
+				"Unexpected map key (path /1)",
+			);
+			expect(schema.matches({ 1: "a", 2: "b" }, "ids")).toBe(true);
+			expect(schema.matches({}, "ids")).toBe(false);
+		});
+
+		test("should try group choices", () => {
+			const schema = CDDL.parse(`
+				shape = { kind: "circle", radius: uint // kind: "rect", w: uint, h: uint }
+			`);
+			expect(schema.matches({ kind: "circle", radius: 1 })).toBe(true);
+			expect(schema.matches({ kind: "rect", w: 1, h: 2 })).toBe(true);
+			expect(schema.matches({ kind: "rect", radius: 1 })).toBe(false);
+		});
+
+		test("should extend rules with /= and //=", () => {
+			const schema = CDDL.parse(`
+				message = { $$payload }
+				$$payload //= (text: tstr)
+				$$payload //= (data: bstr)
+				$color /= "red"
+				$color /= "blue"
+			`);
+			expect(schema.matches({ text: "hi" })).toBe(true);
+			expect(schema.matches({ data: new ArrayBuffer(0) })).toBe(true);
+			expect(schema.matches("blue", "$color")).toBe(true);
+			expect(schema.matches("green", "$color")).toBe(false);
+		});
+
+		test("should apply controls", () => {
+			const schema = CDDL.parse(`
+				key = bstr .size 32
+				name = tstr .size (1..8)
+				small = uint .size 1
+				id = tstr .regexp "[a-z]+-[0-9]+"
+				port = uint .lt 65536
+				embedded = bstr .cbor [uint, tstr]
+				stream = bstr .cborseq [* uint]
+			`);
+			expect(schema.matches(new Uint8Array(32))).toBe(true);
+			expect(() => schema.validate(new Uint8Array(31))).toThrow(
+				"Expected bstr .size 32, got size 31",
+			);
+			expect(schema.matches("ada", "name")).toBe(true);
+			expect(schema.matches("", "name")).toBe(false);
+			expect(schema.matches(255, "small")).toBe(true);
+			expect(schema.matches(256, "small")).toBe(false);
+			expect(schema.matches("abc-12", "id")).toBe(true);
+			expect(schema.matches("abc-12x", "id")).toBe(false);
+			expect(schema.matches(65536, "port")).toBe(false);
+			expect(schema.matches(CBOR.encode([1, "a"]), "embedded")).toBe(true);
+			expect(() => schema.validate(CBOR.encode([1, 2]), "embedded")).toThrow(
+				"Expected tstr, got 2 (path /1)",
+			);
+			expect(() => schema.validate(new Uint8Array([0x18]), "embedded")).toThrow(
+				"Invalid embedded CBOR",
+			);
+			expect(schema.matches(CBOR.encodeSequence([1, 2, 3]), "stream")).toBe(
+				true,
+			);
+		});
+
+		test("should instantiate generics", () => {
+			const schema = CDDL.parse(`
+				message = pair<tstr, uint> / pair<uint, bool>
+				pair<K, V> = [key: K, value: V]
+				wrapped<T> = { data: T }
+			`);
+			expect(schema.matches(["a", 1])).toBe(true);
+			expect(schema.matches([1, true])).toBe(true);
+			expect(schema.matches(["a", true])).toBe(false);
+			expect(() =>
+				CDDL.parse("a = wrapped<[* int]>\nwrapped<T> = { data: T }").validate({
+					data: [1, "x"],
+				}),
+			).toThrow('Expected int, got "x" (path /data/1)');
+		});
+
+		test("should match tags and native values for built-in tags", () => {
+			const schema = CDDL.parse(`
+				a = [tdate, time, uri, biguint, #6.1234(uint)]
+			`);
+			const big = 2n ** 70n;
+			expect(
+				schema.matches([
+					new Date(0),
+					new Date(0),
+					new URL("https://example.com"),
+					big,
+					new CBORTag(1234, 5),
+				]),
+			).toBe(true);
+			expect(() =>
+				schema.validate([
+					new Date(0),
+					new Date(0),
+					new URL("https://example.com"),
+					big,
+					new CBORTag(1234, "x"),
+				]),
+			).toThrow('Expected uint, got "x" (path /4)');
+		});
+
+		test("should unwrap and choose from groups", () => {
+			const schema = CDDL.parse(`
+				extended = [~basic, extra: tstr]
+				basic = [x: int, y: int]
+				color = &colors
+				colors = (red: 1, green: 2, blue: 3)
+			`);
+			expect(schema.matches([1, 2, "z"])).toBe(true);
+			expect(schema.matches([[1, 2], "z"])).toBe(false);
+			expect(schema.matches(2, "color")).toBe(true);
+			expect(schema.matches(4, "color")).toBe(false);
+		});
+
+		test("should validate COSE structures", () => {
+			const schema = CDDL.parse(COSE_SIGN1_CDDL);
+			const encoded = COSE.encodeSign1({
+				protected: { [COSEHeader.alg]: COSEAlgorithm.ES256 },
+				unprotected: { [COSEHeader.kid]: new Uint8Array([1, 2]).buffer },
+				payload: null,
+				signature: new Uint8Array(64).buffer,
+			});
+			expect(schema.matches(CBOR.decode(encoded))).toBe(true);
+			expect(schema.matches(CBOR.decode(encoded, { mapType: "map" }))).toBe(
+				true,
+			);
+
+			const invalid = new CBORTag(18, [
+				CBOR.encode({ [COSEHeader.alg]: 1.5 }),
+				{},
+				null,
+				new ArrayBuffer(64),
+			]);
+			const error = (() => {
+				try {
+					schema.validate(invalid);
+				} catch (error) {
+					return error as CDDLValidationError;
+				}
+			})();
+			expect(error).toBeInstanceOf(CDDLValidationError);
+			expect(error?.message).toBe("Expected int / tstr, got 1.5 (path /0/1)");
+			expect(error?.rule).toBe("COSE_Sign1_Tagged");
+			expect(error?.path).toBe("/0/1");
+		});
+
+		test("should escape path segments", () => {
+			const schema = CDDL.parse("a = { * tstr => uint }");
+			expect(() => schema.validate({ "a/b~": "x" })).toThrow("(path /a~1b~0)");
+		});
+
+		test("should reject unknown rule names", () => {
+			expect(() => CDDL.parse("a = int").validate(1, "b")).toThrow(
+				"Unknown CDDL rule: b",
+			);
+		});
+
+		test("should accept any decoded integer array as [* int]", () => {
+			const schema = CDDL.parse("a = [* int]");
+			fc.assert(
+				fc.property(
+					fc.array(
+						fc.oneof(
+							fc.integer(),
+							fc.bigInt({ min: -(2n ** 64n), max: 2n ** 64n - 1n }),
+						),
+					),
+					(values) => {
+						expect(schema.matches(CBOR.decode(CBOR.encode(values)))).toBe(true);
+					},
+				),
+			);
+		});
+	});
+});
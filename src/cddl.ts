@@ -0,0 +1,1410 @@
+import { CBOR, CBOREncoded, CBORTag, type CBORValue } from "./cbor";
+import { describeValue } from "./describe";
+import {
+	MAX_UINT64,
+	asByteString,
+	bignumBytes,
+	escapePathSegment,
+	mapEntries,
+	mapKeySegment,
+	toFloat16,
+} from "./utils";
+
+/**
+ * Thrown when a CDDL document cannot be parsed. `line` and `column` are
+ * 1-based and point at the offending text.
+ */
+export class CDDLParseError extends Error {
+	readonly reason: string;
+	readonly line: number;
+	readonly column: number;
+
+	constructor(reason: string, line: number, column: number) {
+		super(`${reason} at line ${line}, column ${column}`);
+		this.name = "CDDLParseError";
+		this.reason = reason;
+		this.line = line;
+		this.column = column;
+	}
+}
+
+/**
+ * Thrown when a value does not match a CDDL rule. `path` locates the
+ * mismatching item like the `path` of a `CBORDecodeError`, e.g. `/3/-2`.
+ */
+export class CDDLValidationError extends Error {
+	readonly rule: string;
+	readonly reason: string;
+	readonly path: string;
+
+	constructor(rule: string, reason: string, path = "") {
+		super(`${reason}${path ? ` (path ${path})` : ""}`);
+		this.name = "CDDLValidationError";
+		this.rule = rule;
+		this.reason = reason;
+		this.path = path;
+	}
+}
+
+/**
+ * A parsed CDDL document (RFC 8610) that validates decoded CBOR values
+ * against its rules. The first rule of the document is the root rule.
+ */
+export class CDDLSchema {
+	/** Name of the first rule, validated against by default */
+	readonly root: string;
+	private readonly rules: ReadonlyMap<string, Rule>;
+
+	constructor(rules: ReadonlyMap<string, Rule>, root: string) {
+		this.rules = rules;
+		this.root = root;
+	}
+
+	/** Names of the rules defined by the document */
+	get ruleNames(): string[] {
+		return [...this.rules.keys()];
+	}
+
+	/**
+	 * Checks `value` against `rule` and throws a `CDDLValidationError`
+	 * describing the deepest mismatch if it does not match.
+	 */
+	validate(value: unknown, rule: string = this.root): void {
+		const mismatch = this.check(value, rule);
+		if (mismatch) {
+			throw new CDDLValidationError(
+				rule,
+				mismatch.reason,
+				mismatch.path
+					.map((segment) => `/${escapePathSegment(segment)}`)
+					.join(""),
+			);
+		}
+	}
+
+	/** Returns whether `value` matches `rule`. */
+	matches(value: unknown, rule: string = this.root): boolean {
+		return this.check(value, rule) === undefined;
+	}
+
+	private check(value: unknown, rule: string): Mismatch | undefined {
+		if (!this.rules.has(rule)) {
+			throw new RangeError(`Unknown CDDL rule: ${rule}`);
+		}
+		const scope: Scope = { rules: this.rules, bindings: new Map() };
+		const reference: CDDLType = {
+			kind: "ref",
+			name: rule,
+			args: [],
+			source: rule,
+		};
+		return matchType(reference, value, scope);
+	}
+}
+
+/**
+ * RFC 8610: Concise Data Definition Language (CDDL)
+ */
+export const CDDL = {
+	parse,
+} as const;
+
+/**
+ * Parses a CDDL document. Supports type and group rules, type and group
+ * choices (including `/=` and `//=`), occurrence indicators, member keys,
+ * ranges, the `#` major type and tag syntax, unwrapping (`~`), choices from
+ * groups (`&`), generics and the controls `.size`, `.cbor`, `.cborseq`,
+ * `.regexp`, `.lt`, `.le`, `.gt`, `.ge`, `.eq`, `.ne`, `.and`, `.within` and
+ * `.default`. Every rule referenced must be defined, except sockets
+ * (`$name`, `$$name`), which match nothing until defined.
+ *
+ * @example
+ * const schema = CDDL.parse(`
+ *   COSE_Key = { 1 => int, ? 3 => int, * label => any }
+ *   label = int / tstr
+ * `);
+ * schema.validate(CBOR.decode(data, { mapType: "map" }));
+ */
+function parse(source: string): CDDLSchema {
+	const rules = parseRules(source);
+	if (rules.size === 0) {
+		throw new CDDLParseError("Expected at least one rule", 1, 1);
+	}
+	for (const [name, rule] of PRELUDE) {
+		if (!rules.has(name)) rules.set(name, rule);
+	}
+	for (const [name, rule] of rules) {
+		checkReferences(rule, rules, source, name);
+	}
+	return new CDDLSchema(rules, rules.keys().next().value as string);
+}
+
+//
+// --- Schema Model ---
+//
+
+type CDDLLiteral = number | bigint | string | Uint8Array;
+
+/** A type expression, with the CDDL text it was parsed from for messages. */
+type CDDLType = { source: string; offset?: number } & (
+	| { kind: "value"; value: CDDLLiteral }
+	| { kind: "ref"; name: string; args: CDDLType[] }
+	| { kind: "choice"; types: CDDLType[] }
+	| { kind: "range"; min: CDDLType; max: CDDLType; exclusive: boolean }
+	| { kind: "control"; operator: string; target: CDDLType; argument: CDDLType }
+	| { kind: "array"; group: Group }
+	| { kind: "map"; group: Group }
+	| { kind: "group"; group: Group }
+	| { kind: "unwrap"; name: string; args: CDDLType[] }
+	| { kind: "enum"; group: Group }
+	| { kind: "tag"; tag?: number; content: CDDLType }
+	| { kind: "major"; majorType?: number; additionalInfo?: number }
+);
+
+/** Group choices, each a sequence of entries */
+type Group = GroupEntry[][];
+
+interface GroupEntry {
+	min: number;
+	max: number;
+	/** Member key, for map entries; ignored in arrays */
+	key?: CDDLType;
+	/** Whether a matching key with a mismatching value fails the map */
+	cut?: boolean;
+	type: CDDLType;
+}
+
+interface Rule {
+	params: string[];
+	group: Group;
+}
+
+interface Scope {
+	rules: ReadonlyMap<string, Rule>;
+	/** Arguments bound to the generic parameters of the current rule */
+	bindings: Map<string, { type: CDDLType; scope: Scope }>;
+}
+
+interface Mismatch {
+	path: (string | number)[];
+	reason: string;
+}
+
+const ID_PATTERN = /[A-Za-z@_$](?:[A-Za-z0-9@_$.-]*[A-Za-z0-9@_$])?/;
+
+const SUPPORTED_CONTROLS = new Set([
+	"size",
+	"cbor",
+	"cborseq",
+	"regexp",
+	"lt",
+	"le",
+	"gt",
+	"ge",
+	"eq",
+	"ne",
+	"and",
+	"within",
+	"default",
+]);
+
+/** The standard prelude (RFC 8610 Appendix D) */
+const PRELUDE_SOURCE = `
+any = #
+uint = #0
+nint = #1
+int = uint / nint
+bstr = #2
+bytes = bstr
+tstr = #3
+text = tstr
+tdate = #6.0(tstr)
+time = #6.1(number)
+number = int / float
+biguint = #6.2(bstr)
+bignint = #6.3(bstr)
+bigint = biguint / bignint
+integer = int / bigint
+unsigned = uint / biguint
+decfrac = #6.4([e10: int, m: integer])
+bigfloat = #6.5([e2: int, m: integer])
+encoded-cbor = #6.24(bstr)
+uri = #6.32(tstr)
+b64url = #6.33(tstr)
+b64legacy = #6.34(tstr)
+regexp = #6.35(tstr)
+mime-message = #6.36(tstr)
+cbor-any = #6.55799(any)
+float16 = #7.25
+float32 = #7.26
+float64 = #7.27
+float16-32 = float16 / float32
+float32-64 = float32 / float64
+float = float16-32 / float64
+false = #7.20
+true = #7.21
+bool = false / true
+nil = #7.22
+null = nil
+undefined = #7.23
+`;
+
+const PRELUDE = parseRules(PRELUDE_SOURCE);
+
+//
+// --- Parsing ---
+//
+
+interface Parser {
+	source: string;
+	offset: number;
+}
+
+function parseRules(source: string): Map<string, Rule> {
+	const parser: Parser = { source, offset: 0 };
+	const rules = new Map<string, Rule>();
+	skipSpace(parser);
+	while (parser.offset < source.length) {
+		const name = expectPattern(parser, ID_PATTERN, "a rule name")[0];
+		const params: string[] = [];
+		if (source[parser.offset] === "<") {
+			parser.offset++;
+			do {
+				skipSpace(parser);
+				params.push(expectPattern(parser, ID_PATTERN, "a parameter name")[0]);
+				skipSpace(parser);
+			} while (matchPattern(parser, /,/));
+			expect(parser, ">");
+		}
+		skipSpace(parser);
+		const assignment = expectPattern(parser, /\/\/=|\/=|=/, '"="')[0];
+		const group = parseGroup(parser, true);
+		const existing = rules.get(name);
+		if (assignment === "=") {
+			if (existing) throw parseError(parser, `Rule ${name} is already defined`);
+			rules.set(name, { params, group });
+		} else if (assignment === "//=" || !existing) {
+			rules.set(name, {
+				params,
+				group: [...(existing?.group ?? []), ...group],
+			});
+		} else {
+			const previous = singleType(existing.group);
+			const added = singleType(group);
+			if (!previous || !added) {
+				throw parseError(parser, `Rule ${name} is not a type`);
+			}
+			const types = [previous, added].flatMap((type) =>
+				type.kind === "choice" ? type.types : [type],
+			);
+			const type: CDDLType = {
+				kind: "choice",
+				types,
+				source: types.map((choice) => choice.source).join(" / "),
+			};
+			rules.set(name, { params, group: [[{ min: 1, max: 1, type }]] });
+		}
+		skipSpace(parser);
+	}
+	return rules;
+}
+
+function parseError(parser: Parser, reason: string): CDDLParseError {
+	const before = parser.source.slice(0, parser.offset).split("\n");
+	return new CDDLParseError(
+		reason,
+		before.length,
+		(before.at(-1) ?? "").length + 1,
+	);
+}
+
+/** Skips whitespace and `;` comments. */
+function skipSpace(parser: Parser): void {
+	matchPattern(parser, /(?:\s+|;[^\n]*)*/);
+}
+
+function matchPattern(
+	parser: Parser,
+	pattern: RegExp,
+): RegExpExecArray | undefined {
+	const sticky = new RegExp(pattern.source, "y");
+	sticky.lastIndex = parser.offset;
+	const match = sticky.exec(parser.source);
+	if (!match) return undefined;
+	parser.offset = sticky.lastIndex;
+	return match;
+}
+
+function expectPattern(
+	parser: Parser,
+	pattern: RegExp,
+	description: string,
+): RegExpExecArray {
+	const match = matchPattern(parser, pattern);
+	if (!match) throw unexpected(parser, description);
+	return match;
+}
+
+function expect(parser: Parser, token: string): void {
+	if (!parser.source.startsWith(token, parser.offset)) {
+		throw unexpected(parser, `"${token}"`);
+	}
+	parser.offset += token.length;
+}
+
+function unexpected(parser: Parser, description: string): CDDLParseError {
+	const next = parser.source.slice(parser.offset).match(/^\S+/)?.[0];
+	return parseError(
+		parser,
+		`Expected ${description} but found ${next ? `"${next.slice(0, 20)}"` : "the end"}`,
+	);
+}
+
+/** Whether the next text starts a new rule: a name followed by an assignment. */
+function atRuleStart(parser: Parser): boolean {
+	const pattern = new RegExp(
+		`${ID_PATTERN.source}(?:<[^>]*>)?\\s*(?://=|/=|=(?!>))`,
+		"y",
+	);
+	pattern.lastIndex = parser.offset;
+	return pattern.test(parser.source);
+}
+
+function parseGroup(parser: Parser, topLevel = false): Group {
+	const group: Group = [parseGroupChoice(parser, topLevel)];
+	while (matchPattern(parser, /\/\/(?!=)/)) {
+		group.push(parseGroupChoice(parser, topLevel));
+	}
+	return group;
+}
+
+function parseGroupChoice(parser: Parser, topLevel: boolean): GroupEntry[] {
+	const entries: GroupEntry[] = [];
+	for (;;) {
+		skipSpace(parser);
+		const next = parser.source[parser.offset];
+		if (
+			next === undefined ||
+			next === ")" ||
+			next === "]" ||
+			next === "}" ||
+			parser.source.startsWith("//", parser.offset) ||
+			(entries.length > 0 && atRuleStart(parser))
+		) {
+			break;
+		}
+		entries.push(parseGroupEntry(parser));
+		skipSpace(parser);
+		matchPattern(parser, /,/);
+	}
+	if (topLevel && entries.length === 0) {
+		throw unexpected(parser, "a type or group");
+	}
+	return entries;
+}
+
+function parseGroupEntry(parser: Parser): GroupEntry {
+	let min = 1;
+	let max = 1;
+	const occurrence = matchPattern(parser, /([0-9]*)\*([0-9]*)|\+|\?/);
+	if (occurrence) {
+		if (occurrence[0] === "?") {
+			min = 0;
+		} else if (occurrence[0] === "+") {
+			max = Number.POSITIVE_INFINITY;
+		} else {
+			min = occurrence[1] ? Number(occurrence[1]) : 0;
+			max = occurrence[2] ? Number(occurrence[2]) : Number.POSITIVE_INFINITY;
+		}
+		skipSpace(parser);
+	}
+	const member = parseMemberKey(parser);
+	return { min, max, ...member, type: parseType(parser) };
+}
+
+/**
+ * Parses `bareword:`, `value:` or `type =>` if present. The first two and
+ * `type ^ =>` are cuts.
+ */
+function parseMemberKey(
+	parser: Parser,
+): { key: CDDLType; cut: boolean } | undefined {
+	const start = parser.offset;
+	const bareword = matchPattern(
+		parser,
+		new RegExp(`(${ID_PATTERN.source})\\s*:(?!:)`),
+	);
+	if (bareword) {
+		skipSpace(parser);
+		return {
+			key: { kind: "value", value: bareword[1], source: bareword[1] },
+			cut: true,
+		};
+	}
+	try {
+		const key = parseType1(parser);
+		skipSpace(parser);
+		const arrow = matchPattern(parser, /(\^\s*)?=>/);
+		if (arrow) {
+			skipSpace(parser);
+			return { key, cut: arrow[1] !== undefined };
+		}
+		if (key.kind === "value" && matchPattern(parser, /:/)) {
+			skipSpace(parser);
+			return { key, cut: true };
+		}
+	} catch (error) {
+		if (!(error instanceof CDDLParseError)) throw error;
+	}
+	parser.offset = start;
+	return undefined;
+}
+
+function parseType(parser: Parser): CDDLType {
+	const start = parser.offset;
+	const types = [parseType1(parser)];
+	for (;;) {
+		const before = parser.offset;
+		skipSpace(parser);
+		if (!matchPattern(parser, /\/(?![/=])/)) {
+			parser.offset = before;
+			break;
+		}
+		skipSpace(parser);
+		types.push(parseType1(parser));
+	}
+	if (types.length === 1) return types[0];
+	return { kind: "choice", types, source: sourceOf(parser, start) };
+}
+
+function parseType1(parser: Parser): CDDLType {
+	const start = parser.offset;
+	const type = parseType2(parser);
+	const before = parser.offset;
+	skipSpace(parser);
+	const range = matchPattern(parser, /\.\.\.?/);
+	if (range) {
+		skipSpace(parser);
+		const max = parseType2(parser);
+		return {
+			kind: "range",
+			min: type,
+			max,
+			exclusive: range[0] === "...",
+			source: sourceOf(parser, start),
+		};
+	}
+	const control = matchPattern(parser, /\.([a-z][a-z0-9-]*)/);
+	if (control) {
+		if (!SUPPORTED_CONTROLS.has(control[1])) {
+			parser.offset = before;
+			throw parseError(parser, `Unsupported control operator .${control[1]}`);
+		}
+		skipSpace(parser);
+		const argument = parseType2(parser);
+		return {
+			kind: "control",
+			operator: control[1],
+			target: type,
+			argument,
+			source: sourceOf(parser, start),
+		};
+	}
+	parser.offset = before;
+	return type;
+}
+
+function parseType2(parser: Parser): CDDLType {
+	const start = parser.offset;
+	const literal = parseLiteral(parser);
+	if (literal !== undefined) {
+		return { kind: "value", value: literal, source: sourceOf(parser, start) };
+	}
+	const char = parser.source[parser.offset];
+	if (char === "(" || char === "{" || char === "[") {
+		parser.offset++;
+		const group = parseGroup(parser);
+		skipSpace(parser);
+		expect(parser, { "(": ")", "{": "}", "[": "]" }[char]);
+		const source = sourceOf(parser, start);
+		if (char === "{") return { kind: "map", group, source };
+		if (char === "[") return { kind: "array", group, source };
+		return singleType(group) ?? { kind: "group", group, source };
+	}
+	if (char === "~") {
+		parser.offset++;
+		skipSpace(parser);
+		const name = expectPattern(parser, ID_PATTERN, "a rule name")[0];
+		const args = parseGenericArgs(parser);
+		return { kind: "unwrap", name, args, source: sourceOf(parser, start) };
+	}
+	if (char === "&") {
+		parser.offset++;
+		skipSpace(parser);
+		const choices = parseType2(parser);
+		const group =
+			choices.kind === "group"
+				? choices.group
+				: [[{ min: 1, max: 1, type: choices }]];
+		return { kind: "enum", group, source: sourceOf(parser, start) };
+	}
+	if (char === "#") {
+		const head = expectPattern(parser, /#(?:([0-7])(?:\.([0-9]+))?)?/, '"#"');
+		const majorType = head[1] === undefined ? undefined : Number(head[1]);
+		const argument = head[2] === undefined ? undefined : Number(head[2]);
+		if (majorType === 6) {
+			expect(parser, "(");
+			skipSpace(parser);
+			const content = parseType(parser);
+			skipSpace(parser);
+			expect(parser, ")");
+			return {
+				kind: "tag",
+				tag: argument,
+				content,
+				source: sourceOf(parser, start),
+			};
+		}
+		return {
+			kind: "major",
+			majorType,
+			additionalInfo: argument,
+			source: sourceOf(parser, start),
+		};
+	}
+	const name = matchPattern(parser, ID_PATTERN);
+	if (!name) throw unexpected(parser, "a type");
+	const args = parseGenericArgs(parser);
+	return {
+		kind: "ref",
+		name: name[0],
+		args,
+		source: sourceOf(parser, start),
+		offset: start,
+	};
+}
+
+function parseGenericArgs(parser: Parser): CDDLType[] {
+	const args: CDDLType[] = [];
+	if (parser.source[parser.offset] !== "<") return args;
+	parser.offset++;
+	do {
+		skipSpace(parser);
+		args.push(parseType1(parser));
+		skipSpace(parser);
+	} while (matchPattern(parser, /,/));
+	expect(parser, ">");
+	return args;
+}
+
+/** Parses a number, text or byte string literal if there is one. */
+function parseLiteral(parser: Parser): CDDLLiteral | undefined {
+	const start = parser.offset;
+	const number = matchPattern(
+		parser,
+		/-?(?:0x[0-9a-fA-F]+|0b[01]+|[0-9]+(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?)(?![A-Za-z0-9_@$])/,
+	);
+	if (number) {
+		const text = number[0];
+		if (/^-?[0-9]+$|^-?0[xb]/.test(text)) {
+			const negative = text.startsWith("-");
+			const magnitude = BigInt(negative ? text.slice(1) : text);
+			const value = negative ? -magnitude : magnitude;
+			return Number.isSafeInteger(Number(value)) ? Number(value) : value;
+		}
+		return Number(text);
+	}
+	const text = matchPattern(parser, /"(?:[^"\\]|\\.)*"/);
+	if (text) {
+		try {
+			return JSON.parse(text[0]) as string;
+		} catch {
+			parser.offset = start;
+			throw parseError(parser, "Invalid text string");
+		}
+	}
+	const bytes = matchPattern(parser, /(h|b64)?'([^']*)'/);
+	if (bytes) {
+		const [, prefix, body] = bytes;
+		if (prefix === "h") {
+			const hex = body.replace(/\s+/g, "");
+			if (!/^(?:[0-9a-fA-F]{2})*$/.test(hex)) {
+				parser.offset = start;
+				throw parseError(parser, "Invalid hex byte string");
+			}
+			return Uint8Array.from(hex.match(/../g) ?? [], (byte) =>
+				Number.parseInt(byte, 16),
+			);
+		}
+		if (prefix === "b64") {
+			parser.offset = start;
+			throw parseError(parser, "Base64 byte strings are not supported");
+		}
+		return new TextEncoder().encode(body);
+	}
+	return undefined;
+}
+
+function sourceOf(parser: Parser, start: number): string {
+	return parser.source.slice(start, parser.offset).trim();
+}
+
+/** The type of a group that is a single, once-occurring keyless entry. */
+function singleType(group: Group): CDDLType | undefined {
+	if (group.length !== 1 || group[0].length !== 1) return undefined;
+	const [entry] = group[0];
+	if (entry.key || entry.min !== 1 || entry.max !== 1) return undefined;
+	return entry.type;
+}
+
+/**
+ * Rejects references to undefined rules, other than sockets, and rules that
+ * refer back to themselves without an array, map or tag in between, such as
+ * `a = b` and `b = a`, which no value can ever finish matching.
+ */
+function checkReferences(
+	rule: Rule,
+	rules: Map<string, Rule>,
+	source: string,
+	ruleName: string,
+): void {
+	const visitGroup = (group: Group) => {
+		for (const entry of group.flat()) {
+			if (entry.key) visitType(entry.key);
+			visitType(entry.type);
+		}
+	};
+	const visitType = (type: CDDLType): void => {
+		switch (type.kind) {
+			case "ref":
+			case "unwrap":
+				if (
+					!rules.has(type.name) &&
+					!rule.params.includes(type.name) &&
+					!type.name.startsWith("$")
+				) {
+					throw parseError(
+						{ source, offset: type.offset ?? source.indexOf(ruleName) },
+						`Undefined rule ${type.name}`,
+					);
+				}
+				type.args.forEach(visitType);
+				break;
+			case "choice":
+				type.types.forEach(visitType);
+				break;
+			case "range":
+				visitType(type.min);
+				visitType(type.max);
+				break;
+			case "control":
+				visitType(type.target);
+				visitType(type.argument);
+				break;
+			case "array":
+			case "map":
+			case "group":
+			case "enum":
+				visitGroup(type.group);
+				break;
+			case "tag":
+				visitType(type.content);
+				break;
+		}
+	};
+	visitGroup(rule.group);
+
+	const seen = new Set<string>();
+	const findCycle = (name: string, path: string[]): string[] | undefined => {
+		const target = rules.get(name);
+		if (!target || seen.has(name)) return undefined;
+		seen.add(name);
+		for (const reference of directReferences(target)) {
+			if (reference.name === ruleName) return [...path, name, ruleName];
+			const cycle = findCycle(reference.name, [...path, name]);
+			if (cycle) return cycle;
+		}
+		return undefined;
+	};
+	for (const reference of directReferences(rule)) {
+		const cycle =
+			reference.name === ruleName
+				? [ruleName, ruleName]
+				: findCycle(reference.name, [ruleName]);
+		if (cycle) {
+			throw parseError(
+				{ source, offset: reference.offset ?? source.indexOf(ruleName) },
+				`Rule ${ruleName} refers to itself (${cycle.join(" -> ")})`,
+			);
+		}
+	}
+}
+
+/**
+ * The rule references of a type rule that a value is matched against
+ * directly, rather than the items of an array, map or tag.
+ */
+function directReferences(
+	rule: Rule,
+): (CDDLType & { kind: "ref" | "unwrap" })[] {
+	const references: (CDDLType & { kind: "ref" | "unwrap" })[] = [];
+	const visitType = (type: CDDLType): void => {
+		switch (type.kind) {
+			case "ref":
+			case "unwrap":
+				if (!rule.params.includes(type.name)) references.push(type);
+				break;
+			case "choice":
+				type.types.forEach(visitType);
+				break;
+			case "range":
+				visitType(type.min);
+				visitType(type.max);
+				break;
+			case "control":
+				visitType(type.target);
+				// The argument of .cbor and .cborseq matches embedded items
+				if (type.operator !== "cbor" && type.operator !== "cborseq") {
+					visitType(type.argument);
+				}
+				break;
+			case "group": {
+				const single = singleType(type.group);
+				if (single) visitType(single);
+				break;
+			}
+			case "enum":
+				for (const entry of type.group.flat()) visitType(entry.type);
+				break;
+		}
+	};
+	const single = singleType(rule.group);
+	if (single) visitType(single);
+	return references;
+}
+
+//
+// --- Validation ---
+//
+
+/**
+ * Resolves a rule reference to the rule's group and the scope binding its
+ * generic parameters, or to the type bound to a generic parameter.
+ */
+function resolve(
+	name: string,
+	args: CDDLType[],
+	scope: Scope,
+): { group: Group; scope: Scope } | undefined {
+	const binding = scope.bindings.get(name);
+	if (binding) {
+		return {
+			group: [[{ min: 1, max: 1, type: binding.type }]],
+			scope: binding.scope,
+		};
+	}
+	const rule = scope.rules.get(name);
+	if (!rule) return undefined;
+	const bindings = new Map<string, { type: CDDLType; scope: Scope }>();
+	rule.params.forEach((param, index) => {
+		const type = args[index];
+		if (type) bindings.set(param, { type, scope });
+	});
+	return { group: rule.group, scope: { rules: scope.rules, bindings } };
+}
+
+/**
+ * Returns the group an entry stands for when it is a group rather than a
+ * single type: a parenthesized group, a reference to a group rule or an
+ * unwrapped array or map.
+ */
+function entryGroup(
+	type: CDDLType,
+	scope: Scope,
+): { group: Group; scope: Scope } | undefined {
+	if (type.kind === "group") return { group: type.group, scope };
+	if (type.kind === "unwrap") {
+		const resolved = resolve(type.name, type.args, scope);
+		const target = resolved && singleType(resolved.group);
+		if (target && (target.kind === "array" || target.kind === "map")) {
+			return { group: target.group, scope: resolved.scope };
+		}
+		return undefined;
+	}
+	if (type.kind !== "ref") return undefined;
+	const resolved = resolve(type.name, type.args, scope);
+	if (!resolved) return { group: [], scope };
+	const single = singleType(resolved.group);
+	if (!single) return resolved;
+	return entryGroup(single, resolved.scope);
+}
+
+function matchType(
+	type: CDDLType,
+	value: unknown,
+	scope: Scope,
+): Mismatch | undefined {
+	switch (type.kind) {
+		case "value":
+			return literalEquals(type.value, value)
+				? undefined
+				: expected(type, value);
+		case "ref":
+		case "unwrap": {
+			const resolved = resolve(type.name, type.args, scope);
+			if (!resolved) return expected(type, value);
+			let target = singleType(resolved.group);
+			if (type.kind === "unwrap") {
+				target = target?.kind === "tag" ? target.content : undefined;
+			}
+			if (!target) {
+				return {
+					path: [],
+					reason: `${type.source} is a group, not a type`,
+				};
+			}
+			const mismatch = matchType(target, value, resolved.scope);
+			// Report prelude types by name rather than their definition
+			if (
+				mismatch &&
+				mismatch.path.length === 0 &&
+				!scope.bindings.has(type.name) &&
+				PRELUDE.get(type.name) === scope.rules.get(type.name)
+			) {
+				return expected(type, value);
+			}
+			return mismatch;
+		}
+		case "choice":
+			return matchChoice(type, type.types, value, scope);
+		case "range":
+			return matchRange(type, value, scope);
+		case "control":
+			return (
+				matchType(type.target, value, scope) ?? matchControl(type, value, scope)
+			);
+		case "array":
+			if (!Array.isArray(value)) return expected(type, value, "array");
+			return matchArray(type.group, value, scope);
+		case "map": {
+			const entries = mapEntries(value);
+			if (!entries) return expected(type, value, "map");
+			return matchMap(type.group, entries, scope);
+		}
+		case "group":
+			return { path: [], reason: `${type.source} is a group, not a type` };
+		case "enum":
+			return enumChoices(type.group, scope).some(
+				([choice, choiceScope]) => !matchType(choice, value, choiceScope),
+			)
+				? undefined
+				: expected(type, value);
+		case "tag":
+			return matchTag(type, value, scope);
+		case "major":
+			return matchesMajorType(type.majorType, type.additionalInfo, value)
+				? undefined
+				: expected(type, value);
+	}
+}
+
+function expected(
+	type: CDDLType,
+	value: unknown,
+	description = type.source,
+): Mismatch {
+	return {
+		path: [],
+		reason: `Expected ${description}, got ${describeValue(value)}`,
+	};
+}
+
+function matchChoice(
+	type: CDDLType,
+	choices: CDDLType[],
+	value: unknown,
+	scope: Scope,
+): Mismatch | undefined {
+	let deepest: Mismatch | undefined;
+	for (const choice of choices) {
+		const mismatch = matchType(choice, value, scope);
+		if (!mismatch) return undefined;
+		if (!deepest || mismatch.path.length > deepest.path.length) {
+			deepest = mismatch;
+		}
+	}
+	// A choice failing at the value itself is reported as a whole
+	return deepest?.path.length ? deepest : expected(type, value);
+}
+
+function matchRange(
+	type: CDDLType & { kind: "range" },
+	value: unknown,
+	scope: Scope,
+): Mismatch | undefined {
+	const min = literalOf(type.min, scope);
+	const max = literalOf(type.max, scope);
+	if (!isNumeric(min) || !isNumeric(max)) {
+		return { path: [], reason: `Range ${type.source} has non-numeric bounds` };
+	}
+	if (
+		!isNumeric(value) ||
+		(typeof value === "number" && Number.isNaN(value)) ||
+		value < min ||
+		value > max ||
+		(type.exclusive && value === max) ||
+		// Integer bounds only admit integers
+		(isInteger(min) && isInteger(max) && !isInteger(value))
+	) {
+		return expected(type, value);
+	}
+	return undefined;
+}
+
+function matchControl(
+	type: CDDLType & { kind: "control" },
+	value: unknown,
+	scope: Scope,
+): Mismatch | undefined {
+	const fail = (reason: string): Mismatch => ({ path: [], reason });
+	switch (type.operator) {
+		case "size": {
+			if (typeof value === "number" || typeof value === "bigint") {
+				const size = literalOf(type.argument, scope);
+				if (!isInteger(size))
+					return fail(`${type.source} needs an integer size`);
+				return BigInt(value) < 256n ** BigInt(size)
+					? undefined
+					: fail(`Expected ${type.source}, got ${describeValue(value)}`);
+			}
+			const bytes =
+				typeof value === "string"
+					? new TextEncoder().encode(value)
+					: asByteString(value);
+			if (!bytes) return fail(`${type.source} needs a string`);
+			const mismatch = matchType(type.argument, bytes.length, scope);
+			return mismatch
+				? fail(`Expected ${type.source}, got size ${bytes.length}`)
+				: undefined;
+		}
+		case "cbor":
+		case "cborseq": {
+			const bytes = asByteString(value);
+			if (!bytes) return expected(type, value);
+			let decoded: CBORValue;
+			try {
+				decoded =
+					type.operator === "cbor"
+						? CBOR.decode(bytes, { mapType: "map", strict: true })
+						: CBOR.decodeSequence(bytes, { mapType: "map" });
+			} catch (error) {
+				return fail(`Invalid embedded CBOR: ${(error as Error).message}`);
+			}
+			return matchType(type.argument, decoded, scope);
+		}
+		case "regexp": {
+			const pattern = literalOf(type.argument, scope);
+			if (typeof pattern !== "string") {
+				return fail(`${type.source} needs a text pattern`);
+			}
+			return typeof value === "string" &&
+				new RegExp(`^(?:${pattern})$`, "u").test(value)
+				? undefined
+				: expected(type, value);
+		}
+		case "lt":
+		case "le":
+		case "gt":
+		case "ge": {
+			const limit = literalOf(type.argument, scope);
+			if (!isNumeric(limit) || !isNumeric(value)) return expected(type, value);
+			const ok = {
+				lt: value < limit,
+				le: value <= limit,
+				gt: value > limit,
+				ge: value >= limit,
+			}[type.operator];
+			return ok ? undefined : expected(type, value);
+		}
+		case "eq":
+		case "ne": {
+			const literal = literalOf(type.argument, scope);
+			const equal = literal !== undefined && literalEquals(literal, value);
+			return equal === (type.operator === "eq")
+				? undefined
+				: expected(type, value);
+		}
+		case "and":
+		case "within":
+			return matchType(type.argument, value, scope);
+		default:
+			return undefined;
+	}
+}
+
+function matchTag(
+	type: CDDLType & { kind: "tag" },
+	value: unknown,
+	scope: Scope,
+): Mismatch | undefined {
+	let contentMismatch: Mismatch | undefined;
+	for (const [tag, content] of tagForms(value)) {
+		if (type.tag !== undefined && tag !== type.tag) continue;
+		const mismatch = matchType(type.content, content, scope);
+		if (!mismatch) return undefined;
+		contentMismatch ??= mismatch;
+	}
+	return contentMismatch ?? expected(type, value);
+}
+
+/** The entry types of a group, with nested groups flattened. */
+function enumChoices(group: Group, scope: Scope): [CDDLType, Scope][] {
+	return group.flat().flatMap((entry) => {
+		const nested = entryGroup(entry.type, scope);
+		return nested
+			? enumChoices(nested.group, nested.scope)
+			: [[entry.type, scope] as [CDDLType, Scope]];
+	});
+}
+
+/**
+ * The ways a decoded value can stand for a tag: `CBORTag`s, and the native
+ * values the decoder produces for built-in tags.
+ */
+function tagForms(value: unknown): [number, unknown][] {
+	if (value instanceof CBORTag) return [[value.tag, value.value]];
+	if (value instanceof CBOREncoded) return [[24, value.bytes]];
+	if (value instanceof Date) {
+		return [
+			[0, value.toISOString()],
+			[1, value.getTime() / 1000],
+		];
+	}
+	if (value instanceof URL) return [[32, value.href]];
+	if (value instanceof Set) return [[258, [...value]]];
+	if (typeof value === "bigint" && value > MAX_UINT64) {
+		return [[2, bignumBytes(value)]];
+	}
+	if (typeof value === "bigint" && value < -1n - MAX_UINT64) {
+		return [[3, bignumBytes(-1n - value)]];
+	}
+	return [];
+}
+
+function matchesMajorType(
+	majorType: number | undefined,
+	additionalInfo: number | undefined,
+	value: unknown,
+): boolean {
+	switch (majorType) {
+		case undefined:
+			return true;
+		case 0:
+			return isInteger(value) && value >= 0 && value <= MAX_UINT64;
+		case 1:
+			return isInteger(value) && value < 0 && value >= -1n - MAX_UINT64;
+		case 2:
+			return asByteString(value) !== undefined;
+		case 3:
+			return typeof value === "string";
+		case 4:
+			return Array.isArray(value);
+		case 5:
+			return mapEntries(value) !== undefined;
+		case 6:
+			return tagForms(value).length > 0;
+	}
+	switch (additionalInfo) {
+		case undefined:
+			return (
+				typeof value === "boolean" ||
+				typeof value === "number" ||
+				value === null ||
+				value === undefined
+			);
+		case 20:
+			return value === false;
+		case 21:
+			return value === true;
+		case 22:
+			return value === null;
+		case 23:
+			return value === undefined;
+		// Decoded floats and integers are both numbers; sizes are checked by
+		// whether the value is representable
+		case 25:
+			return typeof value === "number" && toFloat16(value) !== undefined;
+		case 26:
+			return (
+				typeof value === "number" &&
+				(Number.isNaN(value) || Math.fround(value) === value)
+			);
+		case 27:
+			return typeof value === "number";
+		default:
+			return false;
+	}
+}
+
+/**
+ * Matches array items against a group. Entries may repeat and nest, so this
+ * tracks every position the group could end at.
+ */
+function matchArray(
+	group: Group,
+	items: unknown[],
+	scope: Scope,
+): Mismatch | undefined {
+	const failures: Failures = {};
+	const ends = arrayPositions(group, items, 0, scope, failures);
+	if (ends.has(items.length)) return undefined;
+	const furthest = Math.max(-1, ...ends);
+	const best = failures.best;
+	if (
+		furthest >= 0 &&
+		(!best || Number(best.path[0]) < furthest || best.path.length === 0)
+	) {
+		return { path: [furthest], reason: "Unexpected array item" };
+	}
+	return best ?? { path: [], reason: "Array does not match its group" };
+}
+
+interface Failures {
+	/** The mismatch found deepest in the value */
+	best?: Mismatch;
+}
+
+function recordFailure(failures: Failures, mismatch: Mismatch): void {
+	if (!failures.best || mismatch.path.length >= failures.best.path.length) {
+		failures.best = mismatch;
+	}
+}
+
+function arrayPositions(
+	group: Group,
+	items: unknown[],
+	start: number,
+	scope: Scope,
+	failures: Failures,
+): Set<number> {
+	const ends = new Set<number>();
+	for (const entries of group) {
+		let positions = new Set([start]);
+		for (const entry of entries) {
+			const next = new Set<number>();
+			for (const position of positions) {
+				for (const end of entryPositions(
+					entry,
+					items,
+					position,
+					scope,
+					failures,
+				)) {
+					next.add(end);
+				}
+			}
+			positions = next;
+			if (positions.size === 0) break;
+		}
+		for (const position of positions) ends.add(position);
+	}
+	return ends;
+}
+
+function entryPositions(
+	entry: GroupEntry,
+	items: unknown[],
+	start: number,
+	scope: Scope,
+	failures: Failures,
+): Set<number> {
+	const nested = entryGroup(entry.type, scope);
+	const results = new Set<number>();
+	if (entry.min === 0) results.add(start);
+	let current = new Set([start]);
+	for (let count = 1; count <= entry.max && current.size > 0; count++) {
+		const next = new Set<number>();
+		for (const position of current) {
+			const ends = nested
+				? arrayPositions(nested.group, items, position, nested.scope, failures)
+				: matchItem(entry.type, items, position, scope, failures);
+			for (const end of ends) {
+				// Repetitions must make progress
+				if (count === 1 || end > position) next.add(end);
+			}
+		}
+		if (count >= entry.min) {
+			for (const end of next) results.add(end);
+		}
+		current = next;
+	}
+	return results;
+}
+
+function matchItem(
+	type: CDDLType,
+	items: unknown[],
+	position: number,
+	scope: Scope,
+	failures: Failures,
+): number[] {
+	if (position >= items.length) {
+		recordFailure(failures, {
+			path: [position],
+			reason: `Missing array item ${type.source}`,
+		});
+		return [];
+	}
+	const mismatch = matchType(type, items[position], scope);
+	if (!mismatch) return [position + 1];
+	recordFailure(failures, { ...mismatch, path: [position, ...mismatch.path] });
+	return [];
+}
+
+/**
+ * Matches map entries against a group. Entries are consumed in group order;
+ * keys left over at the end do not match.
+ */
+function matchMap(
+	group: Group,
+	entries: [unknown, unknown][],
+	scope: Scope,
+): Mismatch | undefined {
+	const failures: Failures = {};
+	const remaining = mapGroup(
+		group,
+		entries,
+		new Set(entries.keys()),
+		scope,
+		failures,
+	);
+	if (!remaining) {
+		return (
+			failures.best ?? { path: [], reason: "Map does not match its group" }
+		);
+	}
+	if (remaining.size === 0) return undefined;
+	const index = remaining.values().next().value as number;
+	const segment = mapKeySegment(entries[index][0], index);
+	if (failures.best?.path[0] === segment) return failures.best;
+	return { path: [segment], reason: "Unexpected map key" };
+}
+
+/**
+ * Matches the group against the entries left in `remaining`, returning the
+ * entries still left, or `undefined` if no group choice matches.
+ */
+function mapGroup(
+	group: Group,
+	entries: [unknown, unknown][],
+	remaining: Set<number>,
+	scope: Scope,
+	failures: Failures,
+): Set<number> | undefined {
+	let best: Set<number> | undefined;
+	for (const choice of group) {
+		let left: Set<number> | undefined = new Set(remaining);
+		for (const entry of choice) {
+			left = mapEntry(entry, entries, left, scope, failures);
+			if (!left) break;
+		}
+		if (left && (!best || left.size < best.size)) best = left;
+		if (best?.size === 0) break;
+	}
+	return best;
+}
+
+function mapEntry(
+	entry: GroupEntry,
+	entries: [unknown, unknown][],
+	remaining: Set<number>,
+	scope: Scope,
+	failures: Failures,
+): Set<number> | undefined {
+	const nested = entry.key ? undefined : entryGroup(entry.type, scope);
+	if (nested) {
+		let left = remaining;
+		let count = 0;
+		while (count < entry.max) {
+			const next = mapGroup(
+				nested.group,
+				entries,
+				left,
+				nested.scope,
+				failures,
+			);
+			if (!next || (count > 0 && next.size === left.size)) break;
+			left = next;
+			count++;
+		}
+		return count >= entry.min ? left : undefined;
+	}
+	if (!entry.key) {
+		recordFailure(failures, {
+			path: [],
+			reason: `Map entry ${entry.type.source} has no key`,
+		});
+		return undefined;
+	}
+	const matched: number[] = [];
+	for (const index of remaining) {
+		if (matched.length >= entry.max) break;
+		const [key, value] = entries[index];
+		if (matchType(entry.key, key, scope)) continue;
+		const mismatch = matchType(entry.type, value, scope);
+		if (!mismatch) {
+			matched.push(index);
+		} else {
+			recordFailure(failures, {
+				...mismatch,
+				path: [mapKeySegment(key, index), ...mismatch.path],
+			});
+			if (entry.cut) return undefined;
+		}
+	}
+	if (matched.length < entry.min) {
+		recordFailure(failures, {
+			path: [],
+			reason:
+				entry.key.kind === "value"
+					? `Missing map key ${entry.key.source}`
+					: `Expected ${entry.min} or more map entries ${entry.key.source} => ${entry.type.source}`,
+		});
+		return undefined;
+	}
+	const left = new Set(remaining);
+	for (const index of matched) left.delete(index);
+	return left;
+}
+
+/** Resolves a type to the literal it stands for, following rule names. */
+function literalOf(type: CDDLType, scope: Scope): CDDLLiteral | undefined {
+	if (type.kind === "value") return type.value;
+	if (type.kind !== "ref") return undefined;
+	const resolved = resolve(type.name, type.args, scope);
+	const single = resolved && singleType(resolved.group);
+	return single ? literalOf(single, resolved.scope) : undefined;
+}
+
+function literalEquals(literal: CDDLLiteral, value: unknown): boolean {
+	if (literal instanceof Uint8Array) {
+		const bytes = asByteString(value);
+		return (
+			bytes !== undefined &&
+			bytes.length === literal.length &&
+			bytes.every((byte, i) => byte === literal[i])
+		);
+	}
+	if (isInteger(literal) && isInteger(value)) {
+		return BigInt(literal) === BigInt(value);
+	}
+	return literal === value;
+}
+
+function isNumeric(value: unknown): value is number | bigint {
+	return typeof value === "number" || typeof value === "bigint";
+}
+
+function isInteger(value: unknown): value is number | bigint {
+	return typeof value === "bigint" || Number.isInteger(value);
+}
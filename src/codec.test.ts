@@ -0,0 +1,296 @@
+import { describe, expect, test } from "bun:test";
+import { fc } from "fast-check-bun-test";
+
+import { CBOR, CBORTag } from "./cbor";
+import { Codec, CodecError, type Infer, c } from "./codec";
+import { COSE, COSEAlgorithm, COSEHeader } from "./cose";
+
+const COSEKey = c.map({
+	kty: c.int().label(1),
+	kid: c.bytes().label(2).optional(),
+	alg: c.union(c.int(), c.text()).label(3).optional(),
+	crv: c.int().label(-1),
+	x: c.bytes().label(-2),
+	y: c.bytes().label(-3),
+});
+
+const COSESign1 = c.tagged(
+	18,
+	c.array([
+		c.cbor(c.map({ alg: c.int().label(1) })),
+		c.record(c.union(c.int(), c.text()), c.any()),
+		c.union(c.bytes(), c.null()),
+		c.bytes(),
+	]),
+);
+
+describe("codec", () => {
+	describe("primitives", () => {
+		test("should round-trip primitive values", () => {
+			expect(c.int().decode(c.int().encode(-7))).toBe(-7);
+			expect(c.uint().decode(c.uint().encode(7))).toBe(7);
+			expect(c.bigint().decode(c.bigint().encode(2n ** 70n))).toBe(2n ** 70n);
+			expect(c.float().decode(c.float().encode(1.5))).toBe(1.5);
+			expect(c.bool().decode(c.bool().encode(true))).toBe(true);
+			expect(c.text().decode(c.text().encode("hi"))).toBe("hi");
+			expect(c.null().decode(c.null().encode(null))).toBe(null);
+			expect(c.literal("v1").decode(c.literal("v1").encode("v1"))).toBe("v1");
+			expect(
+				c.bytes().decode(c.bytes().encode(new Uint8Array([1, 2]).buffer)),
+			).toEqual(new Uint8Array([1, 2]).buffer);
+		});
+
+		test("should reject mismatching values in both directions", () => {
+			expect(() => c.int().decode(CBOR.encode("7"))).toThrow(
+				'Expected an integer, got "7"',
+			);
+			expect(() => c.uint().decode(CBOR.encode(-1))).toThrow(
+				"Expected an unsigned integer, got -1",
+			);
+			expect(() => c.int().decode(CBOR.encode(2n ** 64n - 1n))).toThrow(
+				"Expected an integer, got 18446744073709551615n",
+			);
+			expect(() => c.literal(1).decode(CBOR.encode(2))).toThrow(
+				"Expected 1, got 2",
+			);
+			expect(() => c.int().encode(1.5)).toThrow(CodecError);
+		});
+
+		test("should round-trip integers", () => {
+			fc.assert(
+				fc.property(fc.maxSafeInteger(), (value) => {
+					expect(c.int().decode(c.int().encode(value))).toBe(value);
+				}),
+			);
+		});
+	});
+
+	describe("containers", () => {
+		test("should encode integer-labelled maps as named fields", () => {
+			const key: Infer<typeof COSEKey> = {
+				kty: 2,
+				crv: 1,
+				x: new Uint8Array([1]).buffer,
+				y: new Uint8Array([2]).buffer,
+			};
+			const encoded = COSEKey.encode(key);
+			expect(CBOR.toDiagnostic(encoded)).toBe(
+				"{1: 2, -1: 1, -2: h'01', -3: h'02'}",
+			);
+			expect(COSEKey.decode(encoded)).toEqual(key);
+		});
+
+		test("should use integer-like field names as integer labels", () => {
+			const schema = c.map({ 1: c.int(), 3: c.int(), [-2]: c.bytes() });
+			const value: Infer<typeof schema> = {
+				1: 2,
+				3: -7,
+				[-2]: new ArrayBuffer(1),
+			};
+			expect(CBOR.toDiagnostic(schema.encode(value))).toBe(
+				"{1: 2, 3: -7, -2: h'00'}",
+			);
+			expect(schema.decode(schema.encode(value))).toEqual(value);
+		});
+
+		test("should accept maps decoded as objects", () => {
+			expect(
+				COSEKey.fromCBOR(
+					CBOR.decode(
+						CBOR.encode({
+							1: 2,
+							3: "ES256",
+							[-1]: 1,
+							[-2]: new ArrayBuffer(1),
+							[-3]: new ArrayBuffer(1),
+						}),
+					),
+				),
+			).toEqual({
+				kty: 2,
+				alg: "ES256",
+				crv: 1,
+				x: new ArrayBuffer(1),
+				y: new ArrayBuffer(1),
+			});
+		});
+
+		test("should report missing, unexpected and mismatching keys", () => {
+			const encode = (entries: [unknown, unknown][]) =>
+				CBOR.encode(new Map(entries));
+			const bytes = new ArrayBuffer(1);
+			expect(() =>
+				COSEKey.decode(
+					encode([
+						[1, 2],
+						[-1, 1],
+						[-2, bytes],
+					]),
+				),
+			).toThrow("Missing map key -3");
+			expect(() =>
+				COSEKey.decode(
+					encode([
+						[1, 2],
+						[-1, 1],
+						[-2, bytes],
+						[-3, bytes],
+						["1", 2],
+					]),
+				),
+			).toThrow("Unexpected map key (path /1)");
+			expect(() =>
+				COSEKey.decode(
+					encode([
+						[1, 2],
+						[-1, 1],
+						[-2, "x"],
+						[-3, bytes],
+					]),
+				),
+			).toThrow('Expected a byte string, got "x" (path /-2)');
+		});
+
+		test("should reject unknown fields when encoding", () => {
+			const key = {
+				kty: 2,
+				crv: 1,
+				x: new ArrayBuffer(1),
+				y: new ArrayBuffer(1),
+			};
+			const extended = { ...key, d: new ArrayBuffer(1) };
+			const unset = { ...key, d: undefined };
+			expect(() => COSEKey.encode(extended)).toThrow(
+				"Unexpected field (path /d)",
+			);
+			expect(() => COSEKey.encode(unset)).not.toThrow();
+		});
+
+		test("should decode arrays and tuples", () => {
+			const list = c.array(c.text());
+			const pair = c.array([c.text(), c.uint()]);
+			const value: Infer<typeof pair> = ["a", 1];
+			expect(list.decode(list.encode(["a", "b"]))).toEqual(["a", "b"]);
+			expect(pair.decode(pair.encode(value))).toEqual(value);
+			expect(() => pair.decode(CBOR.encode(["a"]))).toThrow(
+				"Expected an array of 2 items, got 1",
+			);
+			expect(() => list.decode(CBOR.encode(["a", 1]))).toThrow(
+				"Expected a text string, got 1 (path /1)",
+			);
+		});
+
+		test("should decode records into Maps", () => {
+			const schema = c.record(c.text(), c.uint());
+			const value = new Map([
+				["a", 1],
+				["b", 2],
+			]);
+			expect(schema.decode(schema.encode(value))).toEqual(value);
+			expect(() => schema.decode(CBOR.encode({ a: -1 }))).toThrow(
+				"Expected an unsigned integer, got -1 (path /a)",
+			);
+		});
+
+		test("should report the deepest union mismatch", () => {
+			const schema = c.union(c.null(), c.array([c.int(), c.text()]));
+			expect(schema.decode(CBOR.encode(null))).toBe(null);
+			expect(schema.decode(CBOR.encode([1, "a"]))).toEqual([1, "a"]);
+			expect(() => schema.decode(CBOR.encode([1, 2]))).toThrow(
+				"Expected a text string, got 2 (path /1)",
+			);
+			expect(() => schema.decode(CBOR.encode("x"))).toThrow(
+				"Value does not match any union member",
+			);
+		});
+
+		test("should reject duplicate labels", () => {
+			expect(() => c.map({ a: c.int().label(1), 1: c.int() })).toThrow(
+				"Duplicate map label 1",
+			);
+		});
+	});
+
+	describe("COSE", () => {
+		test("should read and write COSE_Sign1", () => {
+			const encoded = COSE.encodeSign1({
+				protected: { [COSEHeader.alg]: COSEAlgorithm.ES256 },
+				unprotected: { [COSEHeader.kid]: new Uint8Array([1]).buffer },
+				payload: null,
+				signature: new Uint8Array([2]).buffer,
+			});
+			const [protectedHeader, unprotected, payload, signature] =
+				COSESign1.decode(encoded);
+			expect(protectedHeader).toEqual({ alg: COSEAlgorithm.ES256 });
+			expect(unprotected).toEqual(
+				new Map([[COSEHeader.kid, new Uint8Array([1]).buffer]]),
+			);
+			expect(payload).toBe(null);
+			expect(signature).toEqual(new Uint8Array([2]).buffer);
+			expect(
+				COSESign1.encode([protectedHeader, unprotected, payload, signature]),
+			).toEqual(encoded);
+		});
+
+		test("should report embedded and tag mismatches", () => {
+			expect(() =>
+				COSESign1.decode(
+					CBOR.encode(
+						new CBORTag(18, [
+							CBOR.encode({ 1: "ES256" }),
+							{},
+							null,
+							new ArrayBuffer(0),
+						]),
+					),
+				),
+			).toThrow('Expected an integer, got "ES256" (path /0/1)');
+			expect(() => COSESign1.decode(CBOR.encode([]))).toThrow(
+				"Expected tag 18, got array of 0 items",
+			);
+		});
+
+		test("should encode embedded CBOR with the caller's options", () => {
+			const codec = c.array([c.cbor(c.map({ b: c.int(), a: c.int() }))]);
+			const value: Infer<typeof codec> = [{ b: 1, a: 2 }];
+			const [sorted] = CBOR.decode(
+				codec.encode(value, { deterministic: "core" }),
+			) as [ArrayBuffer];
+			expect(sorted).toEqual(
+				CBOR.encode(
+					new Map([
+						["a", 2],
+						["b", 1],
+					]),
+				),
+			);
+			const [unsorted] = CBOR.decode(codec.encode(value)) as [ArrayBuffer];
+			expect(unsorted).toEqual(
+				CBOR.encode(
+					new Map([
+						["b", 1],
+						["a", 2],
+					]),
+				),
+			);
+		});
+	});
+
+	test("should support custom codecs", () => {
+		const date = new Codec<Date>({
+			read: (value, path) => {
+				if (typeof value !== "string") {
+					throw new CodecError("Expected a date string", path);
+				}
+				return new Date(value);
+			},
+			write: (value) => value.toISOString(),
+		});
+		const schema = c.map({ at: date });
+		const value = { at: new Date(0) };
+		expect(schema.decode(schema.encode(value))).toEqual(value);
+		expect(() => schema.decode(CBOR.encode({ at: 0 }))).toThrow(
+			"Expected a date string (path /at)",
+		);
+	});
+});
@@ -0,0 +1,510 @@
+import {
+	CBOR,
+	type CBORDecodeOptions,
+	type CBOREncodeOptions,
+	CBORTag,
+	type CBORValue,
+} from "./cbor";
+import { describeValue } from "./describe";
+import {
+	escapePathSegment,
+	mapEntries,
+	mapKeySegment,
+	objectKey,
+} from "./utils";
+
+/**
+ * Thrown when a value does not fit a codec, while decoding or encoding.
+ * `path` locates the offending item like the `path` of a `CBORDecodeError`.
+ */
+export class CodecError extends Error {
+	readonly reason: string;
+	readonly path: string;
+
+	constructor(reason: string, path = "") {
+		super(`${reason}${path ? ` (path ${path})` : ""}`);
+		this.name = "CodecError";
+		this.reason = reason;
+		this.path = path;
+	}
+}
+
+/** A CBOR map key a codec field is stored under */
+export type MapLabel = number | string;
+
+/**
+ * Converts between an application type `T` and CBOR, validating in both
+ * directions. Build codecs with the `c` helpers and get their type with
+ * `Infer<typeof codec>`.
+ */
+export class Codec<T, Optional extends boolean = false> {
+	/** Whether the field may be absent when used in `c.map` */
+	readonly isOptional: Optional;
+	/** The map key to use when used in `c.map`, instead of the field name */
+	readonly mapLabel?: MapLabel;
+	private readonly read: (value: unknown, path: string) => T;
+	private readonly write: (
+		value: T,
+		path: string,
+		options: CBOREncodeOptions,
+	) => CBORValue;
+
+	constructor(
+		definition: {
+			read: (value: unknown, path: string) => T;
+			write: (value: T, path: string, options: CBOREncodeOptions) => CBORValue;
+		},
+		isOptional = false as Optional,
+		mapLabel?: MapLabel,
+	) {
+		this.read = definition.read;
+		this.write = definition.write;
+		this.isOptional = isOptional;
+		this.mapLabel = mapLabel;
+	}
+
+	/** Validates `value` and encodes it to CBOR. */
+	encode(value: T, options: CBOREncodeOptions = {}): ArrayBuffer {
+		return CBOR.encode(this.toCBOR(value, "", options), options);
+	}
+
+	/**
+	 * Decodes CBOR and converts the result, throwing a `CodecError` if it does
+	 * not fit. Maps are decoded with their key types intact and tags are left
+	 * as `CBORTag`s, so the built-in tag handlers are off unless enabled.
+	 */
+	decode(
+		buffer: ArrayBuffer | ArrayBufferView,
+		options: CBORDecodeOptions = {},
+	): T {
+		return this.fromCBOR(
+			CBOR.decode(buffer, { builtinTags: false, ...options, mapType: "map" }),
+		);
+	}
+
+	/** Converts a decoded CBOR value. `path` prefixes error paths. */
+	fromCBOR(value: unknown, path = ""): T {
+		return this.read(value, path);
+	}
+
+	/**
+	 * Converts a value to what `CBOR.encode` takes. `options` are used for
+	 * embedded CBOR (`c.cbor`) and should match those of the outer encode.
+	 */
+	toCBOR(value: T, path = "", options: CBOREncodeOptions = {}): CBORValue {
+		return this.write(value, path, options);
+	}
+
+	/** The same codec as a map field that may be absent. */
+	optional(): Codec<T, true> {
+		return new Codec(
+			{ read: this.read, write: this.write },
+			true,
+			this.mapLabel,
+		);
+	}
+
+	/**
+	 * The same codec as a map field stored under `label`, so that integer
+	 * labels can become named object fields.
+	 *
+	 * @example
+	 * c.map({ alg: c.int().label(1), kid: c.bytes().label(4).optional() });
+	 */
+	label(label: MapLabel): Codec<T, Optional> {
+		return new Codec(
+			{ read: this.read, write: this.write },
+			this.isOptional,
+			label,
+		);
+	}
+}
+
+/** The type a codec converts to and from. */
+export type Infer<C> = C extends Codec<infer T, boolean> ? T : never;
+
+type AnyCodec = Codec<any, boolean>;
+
+type MapShape = { [field: string | number]: AnyCodec };
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type InferMap<Shape extends MapShape> = Simplify<
+	{
+		[K in keyof Shape as Shape[K]["isOptional"] extends true
+			? never
+			: K]: Infer<Shape[K]>;
+	} & {
+		[K in keyof Shape as Shape[K]["isOptional"] extends true
+			? K
+			: never]?: Infer<Shape[K]>;
+	}
+>;
+
+type InferTuple<Items extends readonly AnyCodec[]> = {
+	-readonly [I in keyof Items]: Infer<Items[I]>;
+};
+
+/**
+ * Codec builders, in the spirit of zod but for CBOR.
+ *
+ * @example
+ * const COSEKey = c.map({
+ *   kty: c.int().label(1),
+ *   kid: c.bytes().label(2).optional(),
+ *   x: c.bytes().label(-2),
+ * });
+ * type COSEKey = Infer<typeof COSEKey>; // { kty: number; x: ArrayBuffer; kid?: ArrayBuffer }
+ * const key = COSEKey.decode(data);
+ */
+export const c = {
+	int,
+	uint,
+	bigint,
+	float,
+	bool,
+	text,
+	bytes,
+	null: nullCodec,
+	literal,
+	any,
+	array,
+	map,
+	record,
+	tagged,
+	union,
+	cbor,
+} as const;
+
+/** Integers in the safe `number` range */
+function int(): Codec<number> {
+	return primitive("an integer", (value) =>
+		(typeof value === "number" && Number.isSafeInteger(value)) ||
+		(typeof value === "bigint" && Number.isSafeInteger(Number(value)))
+			? Number(value)
+			: undefined,
+	);
+}
+
+/** Non-negative integers in the safe `number` range */
+function uint(): Codec<number> {
+	return primitive("an unsigned integer", (value) =>
+		(typeof value === "number" && Number.isSafeInteger(value)) ||
+		(typeof value === "bigint" && Number.isSafeInteger(Number(value)))
+			? Number(value) >= 0
+				? Number(value)
+				: undefined
+			: undefined,
+	);
+}
+
+/** Integers of any size, including bignums, as `bigint`s */
+function bigint(): Codec<bigint> {
+	return primitive("an integer", (value) =>
+		typeof value === "bigint" || Number.isInteger(value)
+			? BigInt(value as number | bigint)
+			: undefined,
+	);
+}
+
+/** Any number, integer or floating-point */
+function float(): Codec<number> {
+	return primitive("a number", (value) =>
+		typeof value === "number" ? value : undefined,
+	);
+}
+
+function bool(): Codec<boolean> {
+	return primitive("a boolean", (value) =>
+		typeof value === "boolean" ? value : undefined,
+	);
+}
+
+function text(): Codec<string> {
+	return primitive("a text string", (value) =>
+		typeof value === "string" ? value : undefined,
+	);
+}
+
+/** Byte strings, as `ArrayBuffer`s */
+function bytes(): Codec<ArrayBuffer> {
+	return primitive("a byte string", (value) => {
+		if (value instanceof ArrayBuffer) return value;
+		if (value instanceof Uint8Array) {
+			return value.slice().buffer as ArrayBuffer;
+		}
+		return undefined;
+	});
+}
+
+function nullCodec(): Codec<null> {
+	return primitive("null", (value) => (value === null ? null : undefined));
+}
+
+/** Exactly the given value */
+function literal<const T extends number | string | boolean | null>(
+	expected: T,
+): Codec<T> {
+	return primitive(describeValue(expected), (value) =>
+		value === expected ? expected : undefined,
+	);
+}
+
+/** Any value, unchecked */
+function any(): Codec<CBORValue> {
+	return new Codec({
+		read: (value) => value as CBORValue,
+		write: (value) => value,
+	});
+}
+
+/**
+ * An array of items of one codec, or a fixed-length tuple when given an
+ * array of codecs.
+ */
+function array<T>(item: Codec<T, boolean>): Codec<T[]>;
+function array<const Items extends readonly AnyCodec[]>(
+	items: Items,
+): Codec<InferTuple<Items>>;
+function array(
+	items: Codec<unknown, boolean> | readonly Codec<unknown, boolean>[],
+): Codec<unknown[]> {
+	const codecAt = (index: number) =>
+		Array.isArray(items) ? items[index] : (items as Codec<unknown, boolean>);
+	const checkLength = (value: unknown[], path: string) => {
+		if (Array.isArray(items) && value.length !== items.length) {
+			throw new CodecError(
+				`Expected an array of ${items.length} items, got ${value.length}`,
+				path,
+			);
+		}
+	};
+	return new Codec({
+		read: (value, path) => {
+			if (!Array.isArray(value)) throw mismatch("an array", value, path);
+			checkLength(value, path);
+			return value.map((item, index) =>
+				codecAt(index).fromCBOR(item, `${path}/${index}`),
+			);
+		},
+		write: (value, path, options) => {
+			if (!Array.isArray(value)) throw mismatch("an array", value, path);
+			checkLength(value, path);
+			return value.map((item, index) =>
+				codecAt(index).toCBOR(item as never, `${path}/${index}`, options),
+			);
+		},
+	});
+}
+
+/**
+ * A map with known keys, as an object with one field per codec. Fields are
+ * stored under their name, or under an integer for integer-like names, unless
+ * given a `label`. Keys and fields not in the shape are rejected.
+ */
+function map<const Shape extends MapShape>(
+	shape: Shape,
+): Codec<InferMap<Shape>> {
+	const fields = Object.entries(shape).map(([name, codec]) => ({
+		name,
+		label: codec.mapLabel ?? objectKey(name),
+		codec: codec as Codec<unknown, boolean>,
+	}));
+	const labels = new Set<MapLabel>();
+	for (const { label } of fields) {
+		if (labels.has(label)) {
+			throw new RangeError(`Duplicate map label ${JSON.stringify(label)}`);
+		}
+		labels.add(label);
+	}
+	return new Codec({
+		read: (value, path) => {
+			const entries = mapEntries(value);
+			if (!entries) throw mismatch("a map", value, path);
+			const byLabel = new Map(entries);
+			const result: Record<string, unknown> = {};
+			for (const { name, label, codec } of fields) {
+				const fieldPath = `${path}/${escapePathSegment(label)}`;
+				if (!byLabel.has(label)) {
+					if (codec.isOptional) continue;
+					throw new CodecError(
+						`Missing map key ${JSON.stringify(label)}`,
+						path,
+					);
+				}
+				result[name] = codec.fromCBOR(byLabel.get(label), fieldPath);
+			}
+			entries.forEach(([key], index) => {
+				if (!labels.has(key as MapLabel)) {
+					throw new CodecError(
+						"Unexpected map key",
+						`${path}/${escapePathSegment(mapKeySegment(key, index))}`,
+					);
+				}
+			});
+			return result as InferMap<Shape>;
+		},
+		write: (value, path, options) => {
+			if (typeof value !== "object" || value === null) {
+				throw mismatch("an object", value, path);
+			}
+			for (const [name, field] of Object.entries(value)) {
+				if (field !== undefined && !Object.hasOwn(shape, name)) {
+					throw new CodecError(
+						"Unexpected field",
+						`${path}/${escapePathSegment(name)}`,
+					);
+				}
+			}
+			const result = new Map<CBORValue, CBORValue>();
+			for (const { name, label, codec } of fields) {
+				const field = (value as Record<string, unknown>)[name];
+				if (field === undefined) {
+					if (codec.isOptional) continue;
+					throw new CodecError(`Missing field ${name}`, path);
+				}
+				result.set(
+					label,
+					codec.toCBOR(field, `${path}/${escapePathSegment(label)}`, options),
+				);
+			}
+			return result;
+		},
+	});
+}
+
+/** A map of any size whose keys and values each fit one codec */
+function record<K, V>(
+	key: Codec<K, boolean>,
+	value: Codec<V, boolean>,
+): Codec<Map<K, V>> {
+	return new Codec({
+		read: (input, path) => {
+			const entries = mapEntries(input);
+			if (!entries) throw mismatch("a map", input, path);
+			return new Map(
+				entries.map(([entryKey, entryValue], index) => {
+					const entryPath = `${path}/${escapePathSegment(mapKeySegment(entryKey, index))}`;
+					return [
+						key.fromCBOR(entryKey, entryPath),
+						value.fromCBOR(entryValue, entryPath),
+					];
+				}),
+			);
+		},
+		write: (input, path, options) => {
+			if (!(input instanceof Map)) throw mismatch("a Map", input, path);
+			let index = 0;
+			const result = new Map<CBORValue, CBORValue>();
+			for (const [entryKey, entryValue] of input) {
+				const entryPath = `${path}/${escapePathSegment(mapKeySegment(entryKey, index++))}`;
+				result.set(
+					key.toCBOR(entryKey, entryPath, options),
+					value.toCBOR(entryValue, entryPath, options),
+				);
+			}
+			return result;
+		},
+	});
+}
+
+/** Content wrapped in the given tag; the tag is required on decoding */
+function tagged<T>(tag: number, content: Codec<T, boolean>): Codec<T> {
+	return new Codec({
+		read: (value, path) => {
+			if (!(value instanceof CBORTag) || value.tag !== tag) {
+				throw mismatch(`tag ${tag}`, value, path);
+			}
+			return content.fromCBOR(value.value, path);
+		},
+		write: (value, path, options) =>
+			new CBORTag(tag, content.toCBOR(value, path, options)),
+	});
+}
+
+/**
+ * Any of the given codecs, tried in order. The mismatch found deepest is
+ * reported when none fits.
+ */
+function union<const Members extends readonly AnyCodec[]>(
+	...members: Members
+): Codec<Infer<Members[number]>> {
+	const attempt = <R>(
+		path: string,
+		convert: (codec: Codec<unknown, boolean>) => R,
+	): R => {
+		let deepest: CodecError | undefined;
+		for (const member of members as readonly Codec<unknown, boolean>[]) {
+			try {
+				return convert(member);
+			} catch (error) {
+				if (!(error instanceof CodecError)) throw error;
+				if (!deepest || error.path.length > deepest.path.length) {
+					deepest = error;
+				}
+			}
+		}
+		if (deepest && deepest.path.length > path.length) throw deepest;
+		throw new CodecError("Value does not match any union member", path);
+	};
+	return new Codec({
+		read: (value, path) =>
+			attempt(path, (codec) => codec.fromCBOR(value, path)) as Infer<
+				Members[number]
+			>,
+		write: (value, path, options) =>
+			attempt(path, (codec) => codec.toCBOR(value, path, options)),
+	});
+}
+
+/**
+ * A byte string holding the encoded CBOR of the given codec, like the CDDL
+ * `.cbor` control (e.g. COSE protected headers).
+ */
+function cbor<T>(content: Codec<T, boolean>): Codec<T> {
+	return new Codec({
+		read: (value, path) => {
+			if (!(value instanceof ArrayBuffer || value instanceof Uint8Array)) {
+				throw mismatch("a byte string", value, path);
+			}
+			let decoded: CBORValue;
+			try {
+				decoded = CBOR.decode(value, { builtinTags: false, mapType: "map" });
+			} catch (error) {
+				throw new CodecError(
+					`Invalid embedded CBOR: ${(error as Error).message}`,
+					path,
+				);
+			}
+			return content.fromCBOR(decoded, path);
+		},
+		write: (value, path, options) =>
+			CBOR.encode(content.toCBOR(value, path, options), options),
+	});
+}
+
+function primitive<T>(
+	description: string,
+	convert: (value: unknown) => T | undefined,
+): Codec<T> {
+	return new Codec<T>({
+		read: (value, path) => {
+			const result = convert(value);
+			if (result === undefined) throw mismatch(description, value, path);
+			return result;
+		},
+		write: (value, path) => {
+			if (convert(value) === undefined) {
+				throw mismatch(description, value, path);
+			}
+			return value as CBORValue;
+		},
+	});
+}
+
+function mismatch(expected: string, value: unknown, path: string): CodecError {
+	return new CodecError(
+		`Expected ${expected}, got ${describeValue(value)}`,
+		path,
+	);
+}
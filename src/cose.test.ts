@@ -4,6 +4,7 @@ import { fc } from "fast-check-bun-test";
 import {
 	COSE,
 	COSEAlgorithm,
+	COSEDecodeError,
 	COSEHeader,
 	type COSEEncrypt,
 	type COSEEncrypt0,
@@ -92,6 +93,98 @@ describe("COSE", () => {
 				"Invalid or unsupported algorithm in protected header",
 			);
 		});
+
+		test("should wrap CBOR decode errors with the message type", () => {
+			const encoded = COSE.encodeSign1({
+				protected: { [COSEHeader.alg]: COSEAlgorithm.ES256 },
+				unprotected: {},
+				payload: null,
+				signature: new Uint8Array([1, 2, 3, 4]).buffer,
+			});
+			const truncated = encoded.slice(0, encoded.byteLength - 2);
+
+			let error: unknown;
+			try {
+				COSE.decodeSign1(truncated);
+			} catch (e) {
+				error = e;
+			}
+			expect(error).toBeInstanceOf(COSEDecodeError);
+			expect(error).toMatchObject({
+				name: "COSEDecodeError",
+				messageType: "COSE_Sign1",
+				code: "UNEXPECTED_END",
+				path: "/3",
+			});
+			expect((error as Error).message).toStartWith(
+				"Failed to decode COSE_Sign1: Buffer too short for CBOR data",
+			);
+		});
+
+		test("should name the protected header when it fails to decode", () => {
+			// 18([h'a101', {}, null, h'01']): protected header map is truncated
+			const data = new Uint8Array([
+				0xd2, 0x84, 0x42, 0xa1, 0x01, 0xa0, 0xf6, 0x41, 0x01,
+			]).buffer;
+			expect(() => COSE.decodeSign1(data)).toThrow(
+				"Failed to decode COSE_Sign1 protected header",
+			);
+		});
+
+		test("should keep the bytes of decoded protected headers", () => {
+			// 18([h'a1013806', {}, null, h'01']): alg -7 encoded in two bytes
+			const data = new Uint8Array([
+				0xd2, 0x84, 0x44, 0xa1, 0x01, 0x38, 0x06, 0xa0, 0xf6, 0x41, 0x01,
+			]).buffer;
+			const decoded = COSE.decodeSign1(data);
+			expect(decoded.protected).toEqual({ [COSEHeader.alg]: -7 });
+			expect(decoded.protectedBytes).toEqual(
+				new Uint8Array([0xa1, 0x01, 0x38, 0x06]),
+			);
+			expect(COSE.encodeSign1(decoded)).toEqual(data);
+
+			// A copy, or a header whose bytes were dropped, is encoded afresh
+			const copy = { ...decoded, protected: { [COSEHeader.alg]: -35 } };
+			expect(COSE.decodeSign1(COSE.encodeSign1(copy)).protectedBytes).toEqual(
+				new Uint8Array([0xa1, 0x01, 0x38, 0x22]),
+			);
+			decoded.protectedBytes = undefined;
+			expect(
+				COSE.decodeSign1(COSE.encodeSign1(decoded)).protectedBytes,
+			).toEqual(new Uint8Array([0xa1, 0x01, 0x26]));
+		});
+
+		test("should keep the bytes of decoded signature headers", () => {
+			const sign: COSESign = {
+				protected: { [COSEHeader.alg]: COSEAlgorithm.ES256 },
+				unprotected: {},
+				payload: null,
+				signatures: [
+					{
+						protected: { [COSEHeader.alg]: COSEAlgorithm.ES384 },
+						unprotected: {},
+						signature: new ArrayBuffer(1),
+					},
+				],
+			};
+			const decoded = COSE.decodeSign(COSE.encodeSign(sign));
+			expect(decoded.signatures[0].protectedBytes).toEqual(
+				new Uint8Array([0xa1, 0x01, 0x38, 0x22]),
+			);
+		});
+
+		test("should reject untagged and wrongly tagged messages", () => {
+			// [h'', {}, null, h'']
+			const untagged = new Uint8Array([0x84, 0x40, 0xa0, 0xf6, 0x40]).buffer;
+			expect(() => COSE.decodeSign1(untagged)).toThrow(
+				"Expected COSE_Sign1 tag 18, got untagged item",
+			);
+			// 17([h'', {}, null, h''])
+			const mac0 = new Uint8Array([0xd1, 0x84, 0x40, 0xa0, 0xf6, 0x40]).buffer;
+			expect(() => COSE.decodeSign1(mac0)).toThrow(
+				"Expected COSE_Sign1 tag 18, got 17",
+			);
+		});
 	});
 
 	describe("COSE_Sign", () => {
@@ -1,5 +1,5 @@
-import type { CBORValue } from "./cbor";
-import { CBOR } from "./cbor";
+import type { CBORDecodeErrorCode, CBORValue } from "./cbor";
+import { CBOR, CBORDecodeError, CBORTag } from "./cbor";
 import { base64Url } from "./utils";
 
 export enum COSETag {
@@ -68,6 +68,13 @@ export type HeaderMap = Record<number, CBORValue>;
 
 export interface COSESign1 {
 	protected: HeaderMap;
+	/**
+	 * The bytes `protected` was decoded from, which are encoded in its place
+	 * and signed. Set by the decode functions as a non-enumerable property,
+	 * so copies made with spread syntax are encoded from `protected`; delete
+	 * it after modifying `protected` in place.
+	 */
+	protectedBytes?: Uint8Array;
 	unprotected: HeaderMap;
 	payload: ArrayBuffer | null;
 	signature: ArrayBuffer;
@@ -75,10 +82,12 @@ export interface COSESign1 {
 
 export interface COSESign {
 	protected: HeaderMap;
+	protectedBytes?: Uint8Array;
 	unprotected: HeaderMap;
 	payload: ArrayBuffer | null;
 	signatures: Array<{
 		protected: HeaderMap;
+		protectedBytes?: Uint8Array;
 		unprotected: HeaderMap;
 		signature: ArrayBuffer;
 	}>;
@@ -86,6 +95,7 @@ export interface COSESign {
 
 export interface COSEMac0 {
 	protected: HeaderMap;
+	protectedBytes?: Uint8Array;
 	unprotected: HeaderMap;
 	payload: ArrayBuffer | null;
 	tag: ArrayBuffer;
@@ -93,10 +103,12 @@ export interface COSEMac0 {
 
 export interface COSEMac {
 	protected: HeaderMap;
+	protectedBytes?: Uint8Array;
 	unprotected: HeaderMap;
 	payload: ArrayBuffer | null;
 	recipients: Array<{
 		protected: HeaderMap;
+		protectedBytes?: Uint8Array;
 		unprotected: HeaderMap;
 		tag: ArrayBuffer;
 	}>;
@@ -104,20 +116,45 @@ export interface COSEMac {
 
 export interface COSEEncrypt0 {
 	protected: HeaderMap;
+	protectedBytes?: Uint8Array;
 	unprotected: HeaderMap;
 	ciphertext: ArrayBuffer;
 }
 
 export interface COSEEncrypt {
 	protected: HeaderMap;
+	protectedBytes?: Uint8Array;
 	unprotected: HeaderMap;
 	ciphertext: ArrayBuffer;
 	recipients: Array<{
 		protected: HeaderMap;
+		protectedBytes?: Uint8Array;
 		unprotected: HeaderMap;
 		encrypted_key: ArrayBuffer;
 	}>;
 }
+
+/**
+ * Thrown when a COSE structure cannot be parsed because its CBOR encoding is
+ * invalid. Carries the underlying `CBORDecodeError` as `cause` together with
+ * the COSE structure that was being decoded.
+ */
+export class COSEDecodeError extends Error {
+	readonly messageType: string;
+	readonly code: CBORDecodeErrorCode;
+	readonly offset: number;
+	readonly path: string;
+
+	constructor(messageType: string, cause: CBORDecodeError) {
+		super(`Failed to decode ${messageType}: ${cause.message}`, { cause });
+		this.name = "COSEDecodeError";
+		this.messageType = messageType;
+		this.code = cause.code;
+		this.offset = cause.offset;
+		this.path = cause.path;
+	}
+}
+
 /**
  * RFC 8152: CBOR Object Signing and Encryption (COSE)
  */
@@ -203,10 +240,61 @@ function validateProtectedHeader(header: HeaderMap): void {
 	}
 	const alg = header[COSEHeader.alg];
 	if (typeof alg !== "number" || !(alg in COSEAlgorithm)) {
+		throw new Error("Invalid or unsupported algorithm in protected header");
+	}
+}
+
+function decodeCBOR(data: ArrayBuffer, messageType: string): CBORValue {
+	try {
+		return CBOR.decode(data);
+	} catch (error) {
+		if (error instanceof CBORDecodeError) {
+			throw new COSEDecodeError(messageType, error);
+		}
+		throw error;
+	}
+}
+
+function decodeTagged(
+	data: ArrayBuffer,
+	tag: COSETag,
+	messageType: string,
+): CBORValue {
+	const tagged = decodeCBOR(data, messageType);
+	if (!(tagged instanceof CBORTag) || tagged.tag !== tag) {
 		throw new Error(
-			"Invalid or unsupported algorithm in protected header",
+			`Expected ${messageType} tag ${tag}, got ${tagged instanceof CBORTag ? tagged.tag : "untagged item"}`,
 		);
 	}
+	return tagged.value;
+}
+
+function decodeProtectedHeader(
+	data: ArrayBuffer,
+	messageType: string,
+): HeaderMap {
+	const header = decodeCBOR(data, messageType) as HeaderMap;
+	validateProtectedHeader(header);
+	return header;
+}
+
+/** Keeps the bytes a protected header was decoded from on its structure. */
+function withProtectedBytes<T>(structure: T, bytes: ArrayBuffer): T {
+	Object.defineProperty(structure, "protectedBytes", {
+		value: new Uint8Array(bytes),
+		writable: true,
+		configurable: true,
+		enumerable: false,
+	});
+	return structure;
+}
+
+function encodeProtectedHeader(
+	header: HeaderMap,
+	bytes?: Uint8Array,
+): ArrayBuffer | Uint8Array {
+	validateProtectedHeader(header);
+	return bytes ?? CBOR.encode(header);
 }
 
 function ensureArrayBuffer(value: CBORValue): ArrayBuffer {
@@ -260,261 +348,261 @@ function encodeKey(key: COSEKey): ArrayBuffer {
  * @returns The decoded COSE_Key as a Map.
  */
 function decodeKey(data: ArrayBuffer): Map<number, number | ArrayBuffer> {
-	const [keyMap, _] = CBOR.decodeMapToMap<number, number | ArrayBuffer>(
-		data,
-		0,
-		(key): key is number => typeof key === "number",
-		(value): value is number | ArrayBuffer =>
-			typeof value === "number" || value instanceof ArrayBuffer,
-	);
+	let keyMap: Map<number, number | ArrayBuffer>;
+	try {
+		[keyMap] = CBOR.decodeMapToMap<number, number | ArrayBuffer>(
+			data,
+			0,
+			(key): key is number => typeof key === "number",
+			(value): value is number | ArrayBuffer =>
+				typeof value === "number" || value instanceof ArrayBuffer,
+		);
+	} catch (error) {
+		if (error instanceof CBORDecodeError) {
+			throw new COSEDecodeError("COSE_Key", error);
+		}
+		throw error;
+	}
 	validateCOSEKey(keyMap);
 	return keyMap;
 }
 
 function encodeSign1(sign1: COSESign1): ArrayBuffer {
-	validateProtectedHeader(sign1.protected);
-	const protectedHeader = CBOR.encode(sign1.protected);
 	const value = [
-		new Uint8Array(protectedHeader).buffer,
+		encodeProtectedHeader(sign1.protected, sign1.protectedBytes),
 		sign1.unprotected,
 		sign1.payload,
 		sign1.signature,
 	];
-	return CBOR.encode({ tag: COSETag.COSE_Sign1, value });
+	return CBOR.encode(new CBORTag(COSETag.COSE_Sign1, value));
 }
 
 function decodeSign1(data: ArrayBuffer): COSESign1 {
-	const tagged = CBOR.decode(data) as { tag: number; value: CBORValue };
-	if (tagged.tag !== COSETag.COSE_Sign1) {
-		throw new Error(
-			`Expected COSE_Sign1 tag ${COSETag.COSE_Sign1}, got ${tagged.tag}`,
-		);
-	}
-	const decoded = tagged.value as [
+	const decoded = decodeTagged(data, COSETag.COSE_Sign1, "COSE_Sign1") as [
 		ArrayBuffer,
 		HeaderMap,
 		ArrayBuffer | null,
 		ArrayBuffer,
 	];
-	const protectedHeader = CBOR.decode(decoded[0]) as HeaderMap;
-	validateProtectedHeader(protectedHeader);
-	return {
-		protected: protectedHeader,
-		unprotected: decoded[1],
-		payload: decoded[2],
-		signature: ensureArrayBuffer(decoded[3]),
-	};
+	const protectedHeader = decodeProtectedHeader(
+		decoded[0],
+		"COSE_Sign1 protected header",
+	);
+	return withProtectedBytes(
+		{
+			protected: protectedHeader,
+			unprotected: decoded[1],
+			payload: decoded[2],
+			signature: ensureArrayBuffer(decoded[3]),
+		},
+		decoded[0],
+	);
 }
 
 function encodeSign(sign: COSESign): ArrayBuffer {
-	validateProtectedHeader(sign.protected);
-	const protectedHeader = CBOR.encode(sign.protected);
 	const value = [
-		new Uint8Array(protectedHeader).buffer,
+		encodeProtectedHeader(sign.protected, sign.protectedBytes),
 		sign.unprotected,
 		sign.payload,
-		sign.signatures.map((sig) => {
-			validateProtectedHeader(sig.protected);
-			return [
-				new Uint8Array(CBOR.encode(sig.protected)).buffer,
-				sig.unprotected,
-				sig.signature,
-			];
-		}),
+		sign.signatures.map((sig) => [
+			encodeProtectedHeader(sig.protected, sig.protectedBytes),
+			sig.unprotected,
+			sig.signature,
+		]),
 	];
-	return CBOR.encode({ tag: COSETag.COSE_Sign, value });
+	return CBOR.encode(new CBORTag(COSETag.COSE_Sign, value));
 }
 
 function decodeSign(data: ArrayBuffer): COSESign {
-	const tagged = CBOR.decode(data) as { tag: number; value: CBORValue };
-	if (tagged.tag !== COSETag.COSE_Sign) {
-		throw new Error(
-			`Expected COSE_Sign tag ${COSETag.COSE_Sign}, got ${tagged.tag}`,
-		);
-	}
-	const decoded = tagged.value as [
+	const decoded = decodeTagged(data, COSETag.COSE_Sign, "COSE_Sign") as [
 		ArrayBuffer,
 		HeaderMap,
 		ArrayBuffer | null,
 		Array<[ArrayBuffer, HeaderMap, ArrayBuffer]>,
 	];
-	const protectedHeader = CBOR.decode(decoded[0]) as HeaderMap;
-	validateProtectedHeader(protectedHeader);
-	return {
-		protected: protectedHeader,
-		unprotected: decoded[1],
-		payload: decoded[2],
-		signatures: decoded[3].map((sig) => {
-			const sigProtected = CBOR.decode(sig[0]) as HeaderMap;
-			validateProtectedHeader(sigProtected);
-			return {
-				protected: sigProtected,
-				unprotected: sig[1],
-				signature: ensureArrayBuffer(sig[2]),
-			};
-		}),
-	};
+	const protectedHeader = decodeProtectedHeader(
+		decoded[0],
+		"COSE_Sign protected header",
+	);
+	return withProtectedBytes(
+		{
+			protected: protectedHeader,
+			unprotected: decoded[1],
+			payload: decoded[2],
+			signatures: decoded[3].map((sig) => {
+				const sigProtected = decodeProtectedHeader(
+					sig[0],
+					"COSE_Signature protected header",
+				);
+				return withProtectedBytes(
+					{
+						protected: sigProtected,
+						unprotected: sig[1],
+						signature: ensureArrayBuffer(sig[2]),
+					},
+					sig[0],
+				);
+			}),
+		},
+		decoded[0],
+	);
 }
 
 function encodeMac0(mac0: COSEMac0): ArrayBuffer {
-	validateProtectedHeader(mac0.protected);
-	const protectedHeader = CBOR.encode(mac0.protected);
 	const value = [
-		new Uint8Array(protectedHeader).buffer,
+		encodeProtectedHeader(mac0.protected, mac0.protectedBytes),
 		mac0.unprotected,
 		mac0.payload,
 		mac0.tag,
 	];
-	return CBOR.encode({ tag: COSETag.COSE_Mac0, value });
+	return CBOR.encode(new CBORTag(COSETag.COSE_Mac0, value));
 }
 
 function decodeMac0(data: ArrayBuffer): COSEMac0 {
-	const tagged = CBOR.decode(data) as { tag: number; value: CBORValue };
-	if (tagged.tag !== COSETag.COSE_Mac0) {
-		throw new Error(
-			`Expected COSE_Mac0 tag ${COSETag.COSE_Mac0}, got ${tagged.tag}`,
-		);
-	}
-	const decoded = tagged.value as [
+	const decoded = decodeTagged(data, COSETag.COSE_Mac0, "COSE_Mac0") as [
 		ArrayBuffer,
 		HeaderMap,
 		ArrayBuffer | null,
 		ArrayBuffer,
 	];
-	const protectedHeader = CBOR.decode(decoded[0]) as HeaderMap;
-	validateProtectedHeader(protectedHeader);
-	return {
-		protected: protectedHeader,
-		unprotected: decoded[1],
-		payload: decoded[2],
-		tag: ensureArrayBuffer(decoded[3]),
-	};
+	const protectedHeader = decodeProtectedHeader(
+		decoded[0],
+		"COSE_Mac0 protected header",
+	);
+	return withProtectedBytes(
+		{
+			protected: protectedHeader,
+			unprotected: decoded[1],
+			payload: decoded[2],
+			tag: ensureArrayBuffer(decoded[3]),
+		},
+		decoded[0],
+	);
 }
 
 function encodeMac(mac: COSEMac): ArrayBuffer {
-	validateProtectedHeader(mac.protected);
-	const protectedHeader = CBOR.encode(mac.protected);
 	const value = [
-		new Uint8Array(protectedHeader).buffer,
+		encodeProtectedHeader(mac.protected, mac.protectedBytes),
 		mac.unprotected,
 		mac.payload,
-		mac.recipients.map((rec) => {
-			validateProtectedHeader(rec.protected);
-			return [
-				new Uint8Array(CBOR.encode(rec.protected)).buffer,
-				rec.unprotected,
-				rec.tag,
-			];
-		}),
+		mac.recipients.map((rec) => [
+			encodeProtectedHeader(rec.protected, rec.protectedBytes),
+			rec.unprotected,
+			rec.tag,
+		]),
 	];
-	return CBOR.encode({ tag: COSETag.COSE_Mac, value });
+	return CBOR.encode(new CBORTag(COSETag.COSE_Mac, value));
 }
 
 function decodeMac(data: ArrayBuffer): COSEMac {
-	const tagged = CBOR.decode(data) as { tag: number; value: CBORValue };
-	if (tagged.tag !== COSETag.COSE_Mac) {
-		throw new Error(
-			`Expected COSE_Mac tag ${COSETag.COSE_Mac}, got ${tagged.tag}`,
-		);
-	}
-	const decoded = tagged.value as [
+	const decoded = decodeTagged(data, COSETag.COSE_Mac, "COSE_Mac") as [
 		ArrayBuffer,
 		HeaderMap,
 		ArrayBuffer | null,
 		Array<[ArrayBuffer, HeaderMap, ArrayBuffer]>,
 	];
-	const protectedHeader = CBOR.decode(decoded[0]) as HeaderMap;
-	validateProtectedHeader(protectedHeader);
-	return {
-		protected: protectedHeader,
-		unprotected: decoded[1],
-		payload: decoded[2],
-		recipients: decoded[3].map((rec) => {
-			const recProtected = CBOR.decode(rec[0]) as HeaderMap;
-			validateProtectedHeader(recProtected);
-			return {
-				protected: recProtected,
-				unprotected: rec[1],
-				tag: ensureArrayBuffer(rec[2]),
-			};
-		}),
-	};
+	const protectedHeader = decodeProtectedHeader(
+		decoded[0],
+		"COSE_Mac protected header",
+	);
+	return withProtectedBytes(
+		{
+			protected: protectedHeader,
+			unprotected: decoded[1],
+			payload: decoded[2],
+			recipients: decoded[3].map((rec) => {
+				const recProtected = decodeProtectedHeader(
+					rec[0],
+					"COSE_recipient protected header",
+				);
+				return withProtectedBytes(
+					{
+						protected: recProtected,
+						unprotected: rec[1],
+						tag: ensureArrayBuffer(rec[2]),
+					},
+					rec[0],
+				);
+			}),
+		},
+		decoded[0],
+	);
 }
 
 function encodeEncrypt0(encrypt0: COSEEncrypt0): ArrayBuffer {
-	validateProtectedHeader(encrypt0.protected);
-	const protectedHeader = CBOR.encode(encrypt0.protected);
 	const value = [
-		new Uint8Array(protectedHeader).buffer,
+		encodeProtectedHeader(encrypt0.protected, encrypt0.protectedBytes),
 		encrypt0.unprotected,
 		encrypt0.ciphertext,
 	];
-	return CBOR.encode({ tag: COSETag.COSE_Encrypt0, value });
+	return CBOR.encode(new CBORTag(COSETag.COSE_Encrypt0, value));
 }
 
 function decodeEncrypt0(data: ArrayBuffer): COSEEncrypt0 {
-	const tagged = CBOR.decode(data) as { tag: number; value: CBORValue };
-	if (tagged.tag !== COSETag.COSE_Encrypt0) {
-		throw new Error(
-			`Expected COSE_Encrypt0 tag ${COSETag.COSE_Encrypt0}, got ${tagged.tag}`,
-		);
-	}
-	const decoded = tagged.value as [ArrayBuffer, HeaderMap, ArrayBuffer];
-	const protectedHeader = CBOR.decode(decoded[0]) as HeaderMap;
-	validateProtectedHeader(protectedHeader);
-	return {
-		protected: protectedHeader,
-		unprotected: decoded[1],
-		ciphertext: ensureArrayBuffer(decoded[2]),
-	};
+	const decoded = decodeTagged(
+		data,
+		COSETag.COSE_Encrypt0,
+		"COSE_Encrypt0",
+	) as [ArrayBuffer, HeaderMap, ArrayBuffer];
+	const protectedHeader = decodeProtectedHeader(
+		decoded[0],
+		"COSE_Encrypt0 protected header",
+	);
+	return withProtectedBytes(
+		{
+			protected: protectedHeader,
+			unprotected: decoded[1],
+			ciphertext: ensureArrayBuffer(decoded[2]),
+		},
+		decoded[0],
+	);
 }
 
 function encodeEncrypt(encrypt: COSEEncrypt): ArrayBuffer {
-	validateProtectedHeader(encrypt.protected);
-	const protectedHeader = CBOR.encode(encrypt.protected);
 	const value = [
-		new Uint8Array(protectedHeader).buffer,
+		encodeProtectedHeader(encrypt.protected, encrypt.protectedBytes),
 		encrypt.unprotected,
 		encrypt.ciphertext,
-		encrypt.recipients.map((rec) => {
-			validateProtectedHeader(rec.protected);
-			return [
-				new Uint8Array(CBOR.encode(rec.protected)).buffer,
-				rec.unprotected,
-				rec.encrypted_key,
-			];
-		}),
+		encrypt.recipients.map((rec) => [
+			encodeProtectedHeader(rec.protected, rec.protectedBytes),
+			rec.unprotected,
+			rec.encrypted_key,
+		]),
 	];
-	return CBOR.encode({ tag: COSETag.COSE_Encrypt, value });
+	return CBOR.encode(new CBORTag(COSETag.COSE_Encrypt, value));
 }
 
 function decodeEncrypt(data: ArrayBuffer): COSEEncrypt {
-	const tagged = CBOR.decode(data) as { tag: number; value: CBORValue };
-	if (tagged.tag !== COSETag.COSE_Encrypt) {
-		throw new Error(
-			`Expected COSE_Encrypt tag ${COSETag.COSE_Encrypt}, got ${tagged.tag}`,
-		);
-	}
-	const decoded = tagged.value as [
+	const decoded = decodeTagged(data, COSETag.COSE_Encrypt, "COSE_Encrypt") as [
 		ArrayBuffer,
 		HeaderMap,
 		ArrayBuffer,
 		Array<[ArrayBuffer, HeaderMap, ArrayBuffer]>,
 	];
-	const protectedHeader = CBOR.decode(decoded[0]) as HeaderMap;
-	validateProtectedHeader(protectedHeader);
-	return {
-		protected: protectedHeader,
-		unprotected: decoded[1],
-		ciphertext: ensureArrayBuffer(decoded[2]),
-		recipients: decoded[3].map((rec) => {
-			const recProtected = CBOR.decode(rec[0]) as HeaderMap;
-			validateProtectedHeader(recProtected);
-			return {
-				protected: recProtected,
-				unprotected: rec[1],
-				encrypted_key: ensureArrayBuffer(rec[2]),
-			};
-		}),
-	};
+	const protectedHeader = decodeProtectedHeader(
+		decoded[0],
+		"COSE_Encrypt protected header",
+	);
+	return withProtectedBytes(
+		{
+			protected: protectedHeader,
+			unprotected: decoded[1],
+			ciphertext: ensureArrayBuffer(decoded[2]),
+			recipients: decoded[3].map((rec) => {
+				const recProtected = decodeProtectedHeader(
+					rec[0],
+					"COSE_recipient protected header",
+				);
+				return withProtectedBytes(
+					{
+						protected: recProtected,
+						unprotected: rec[1],
+						encrypted_key: ensureArrayBuffer(rec[2]),
+					},
+					rec[0],
+				);
+			}),
+		},
+		decoded[0],
+	);
 }
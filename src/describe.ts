@@ -0,0 +1,19 @@
+import { CBOREncoded, CBORTag } from "./cbor";
+import { asByteString, mapEntries } from "./utils";
+
+/** Describes a decoded value briefly for error messages. */
+export function describeValue(value: unknown): string {
+	if (typeof value === "string") {
+		return JSON.stringify(value.length > 32 ? `${value.slice(0, 32)}…` : value);
+	}
+	if (typeof value === "bigint") return `${value}n`;
+	if (typeof value !== "object" || value === null) return String(value);
+	const bytes = asByteString(value);
+	if (bytes) return `byte string of ${bytes.length} bytes`;
+	if (Array.isArray(value)) return `array of ${value.length} items`;
+	if (value instanceof CBORTag) return `tag ${value.tag}`;
+	if (value instanceof CBOREncoded) return "tag 24";
+	if (value instanceof Date) return "date";
+	if (mapEntries(value)) return "map";
+	return Object.prototype.toString.call(value).slice(8, -1);
+}
@@ -1,2 +1,4 @@
 export * from "./cbor";
 export * from "./cose";
+export * from "./cddl";
+export * from "./codec";
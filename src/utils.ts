@@ -54,7 +54,12 @@ function base64UrlEncode(input: string | object | Uint8Array): string {
 		data = new TextEncoder().encode(str);
 	}
 
-	const base64 = btoa(String.fromCharCode(...data));
+	// Convert in slices: spreading a large array overflows the call stack
+	let binary = "";
+	for (let i = 0; i < data.length; i += 0x8000) {
+		binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+	}
+	const base64 = btoa(binary);
 	return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
 }
 
@@ -221,3 +226,117 @@ function bufferToBase32(buffer: ArrayBuffer | Uint8Array): string {
 
 	return result;
 }
+
+/** Largest integer that fits the argument of a CBOR head. */
+export const MAX_UINT64 = 0xffffffffffffffffn;
+
+/**
+ * Views exactly the bytes of `buffer`, honouring the offset and length of
+ * `ArrayBufferView`s.
+ */
+export function toBytes(buffer: ArrayBuffer | ArrayBufferView): Uint8Array {
+	if (ArrayBuffer.isView(buffer)) {
+		return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+	}
+	return new Uint8Array(buffer);
+}
+
+/**
+ * The bytes of a decoded byte string (an `ArrayBuffer` or `Uint8Array`), or
+ * `undefined` for any other value.
+ */
+export function asByteString(value: unknown): Uint8Array | undefined {
+	if (value instanceof ArrayBuffer) return new Uint8Array(value);
+	if (value instanceof Uint8Array) return value;
+	return undefined;
+}
+
+export function toHexString(bytes: Uint8Array): string {
+	let hex = "";
+	for (const byte of bytes) hex += byte.toString(16).padStart(2, "0");
+	return hex;
+}
+
+export function fromHexString(hex: string): Uint8Array {
+	const bytes = new Uint8Array(hex.length / 2);
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+	}
+	return bytes;
+}
+
+/** The big-endian bytes of a non-negative bignum, without leading zeros. */
+export function bignumBytes(magnitude: bigint): Uint8Array {
+	let hex = magnitude.toString(16);
+	if (hex.length % 2) hex = `0${hex}`;
+	return fromHexString(hex);
+}
+
+/**
+ * Returns the binary16 bit pattern of `value`, or `undefined` when it cannot be
+ * represented exactly. NaN always maps to the canonical quiet NaN 0x7e00.
+ */
+export function toFloat16(value: number): number | undefined {
+	if (Number.isNaN(value)) return 0x7e00;
+	const sign = value < 0 || Object.is(value, -0) ? 0x8000 : 0;
+	const abs = Math.abs(value);
+	if (abs === 0) return sign;
+	if (abs === Number.POSITIVE_INFINITY) return sign | 0x7c00;
+	if (abs < 2 ** -24 || abs > 65504) return undefined;
+	if (abs < 2 ** -14) {
+		const mantissa = abs * 2 ** 24;
+		return Number.isInteger(mantissa) ? sign | mantissa : undefined;
+	}
+	let exponent = Math.floor(Math.log2(abs));
+	// Math.log2 may be off by one near powers of two
+	if (2 ** exponent > abs) exponent--;
+	else if (2 ** (exponent + 1) <= abs) exponent++;
+	const mantissa = (abs / 2 ** exponent) * 1024 - 1024;
+	if (!Number.isInteger(mantissa)) return undefined;
+	return sign | ((exponent + 15) << 10) | mantissa;
+}
+
+/**
+ * Escapes a path segment as in a JSON Pointer (RFC 6901).
+ */
+export function escapePathSegment(segment: string | number): string {
+	return String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Whether a `Map` key compares by value in JS, as opposed to byte strings,
+ * arrays, maps and tags, which compare by identity.
+ */
+export function isScalarKey(key: unknown): boolean {
+	return typeof key !== "object" || key === null;
+}
+
+/**
+ * Path segment naming a `Map` entry. Non-scalar keys have no natural textual
+ * form and are identified by the entry's position instead.
+ */
+export function mapKeySegment(key: unknown, index: number): string | number {
+	if (typeof key === "string" || typeof key === "number") return key;
+	return isScalarKey(key) ? String(key) : `#${index}`;
+}
+
+/**
+ * The CBOR key a plain object property stands for. Object keys are always
+ * strings; integer-like ones (e.g. COSE labels) are CBOR integers.
+ */
+export function objectKey(key: string): string | number {
+	const number = Number(key);
+	return Number.isSafeInteger(number) && String(number) === key ? number : key;
+}
+
+/**
+ * The entries of a decoded map: a `Map`, or a plain object whose keys are
+ * read with `objectKey`. Returns `undefined` for any other value.
+ */
+export function mapEntries(value: unknown): [unknown, unknown][] | undefined {
+	if (value instanceof Map) return [...value];
+	if (typeof value !== "object" || value === null) return undefined;
+	const prototype = Object.getPrototypeOf(value);
+	if (prototype !== Object.prototype && prototype !== null) return undefined;
+	return Object.entries(value).map(([key, item]) => [objectKey(key), item]);
+}
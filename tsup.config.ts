@@ -1,7 +1,13 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-	entry: ["./src/mod.ts", "./src/cbor.ts", "./src/cose.ts"],
+	entry: [
+		"./src/mod.ts",
+		"./src/cbor.ts",
+		"./src/cose.ts",
+		"./src/cddl.ts",
+		"./src/codec.ts",
+	],
 	format: ["esm", "cjs"],
 	dts: true,
 	clean: true,